@@ -0,0 +1,42 @@
+import { ParseError } from "@/lib/errors"
+import type { EndpointAttempt, Tag } from "@/lib/providers/types"
+import { deployThroughBackend } from "@/lib/server/backend"
+import { guardDeployRequest } from "@/lib/server/guards"
+import { errorResponse, readJson } from "@/lib/server/responses"
+
+/**
+ * Uploads HTML through the hosted deploy backend, keeping its addresses and key on the server.
+ * Only this app's own pages may call it, at a limited rate, since every call spends the backend's key.
+ */
+export async function POST(request: Request) {
+  const rejected = guardDeployRequest(request)
+  if (rejected) {
+    return rejected
+  }
+
+  // Every backend tried, successful or not, so the client's attempt log shows the server-side failover
+  const attempts: EndpointAttempt[] = []
+
+  try {
+    const { html, tags } = await readJson<{ html?: unknown; tags?: unknown }>(request)
+
+    if (typeof html !== "string" || !html) {
+      throw new ParseError("the request", "Missing HTML content")
+    }
+    if (!isTagList(tags)) {
+      throw new ParseError("the request", "Tags must be a list of name and value strings")
+    }
+
+    const result = await deployThroughBackend(html, tags, (attempt) => attempts.push(attempt))
+    return Response.json({ ...result, attempts })
+  } catch (error) {
+    return errorResponse(error, { attempts })
+  }
+}
+
+function isTagList(value: unknown): value is Tag[] {
+  return (
+    Array.isArray(value) &&
+    value.every((tag) => typeof tag?.name === "string" && typeof tag?.value === "string")
+  )
+}
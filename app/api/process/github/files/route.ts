@@ -0,0 +1,33 @@
+import { encodeBase64 } from "@/lib/base64"
+import { ParseError } from "@/lib/errors"
+import { downloadGithubRepo } from "@/lib/server/github"
+import { guardProcessRequest } from "@/lib/server/guards"
+import { errorResponse, readJson } from "@/lib/server/responses"
+import { extractSiteFiles } from "@/lib/zip-processing"
+
+/**
+ * Downloads a GitHub repository and returns its site files individually, for multi-file deployments,
+ * along with the commit they were built from
+ */
+export async function POST(request: Request) {
+  const rejected = guardProcessRequest(request)
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const { url } = await readJson<{ url?: unknown }>(request)
+    if (typeof url !== "string" || !url) {
+      throw new ParseError("the request", "Missing GitHub repository URL")
+    }
+
+    const { file, provenance } = await downloadGithubRepo(url)
+    const files = await extractSiteFiles(file)
+    return Response.json({
+      files: files.map((file) => ({ path: file.path, contentType: file.contentType, data: encodeBase64(file.data) })),
+      provenance,
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,29 @@
+import { ParseError } from "@/lib/errors"
+import { downloadGithubRepo } from "@/lib/server/github"
+import { guardProcessRequest } from "@/lib/server/guards"
+import { errorResponse, readJson } from "@/lib/server/responses"
+import { processZipFile } from "@/lib/zip-processing"
+
+/**
+ * Downloads a GitHub repository and converts it to a single HTML document, along with the commit it was built from
+ * and any references in it that couldn't be resolved
+ */
+export async function POST(request: Request) {
+  const rejected = guardProcessRequest(request)
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const { url } = await readJson<{ url?: unknown }>(request)
+    if (typeof url !== "string" || !url) {
+      throw new ParseError("the request", "Missing GitHub repository URL")
+    }
+
+    const { file, provenance } = await downloadGithubRepo(url)
+    const { html, warnings } = await processZipFile(file)
+    return Response.json({ html, warnings, provenance })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,25 @@
+import { ParseError } from "@/lib/errors"
+import { guardProcessRequest } from "@/lib/server/guards"
+import { errorResponse, readJson } from "@/lib/server/responses"
+import { fetchUrlContent } from "@/lib/server/url-content"
+
+/**
+ * Fetches a live page and returns it as a single HTML document ready to deploy
+ */
+export async function POST(request: Request) {
+  const rejected = guardProcessRequest(request)
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const { url } = await readJson<{ url?: unknown }>(request)
+    if (typeof url !== "string" || !url) {
+      throw new ParseError("the request", "Missing URL")
+    }
+
+    return Response.json({ html: await fetchUrlContent(url) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
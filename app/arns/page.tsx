@@ -11,6 +11,9 @@ import { Loader2, Wallet, ExternalLink, Copy, CheckCircle, AlertCircle } from "l
 import { ShineBorder } from "@/components/magicui/shine-border"
 import ParticlesBackground from "@/components/ardacity/particles-background"
 import { connectWallet, getWalletAddress, getArnsNames, migrateToArns } from "@/lib/arns-utils"
+import { isLocalGatewayUrl } from "@/lib/local-gateway"
+import { subscribeToSigner } from "@/lib/signer"
+import { SignerPanel } from "@/components/signer-panel"
 
 interface ArnsName {
   name: string
@@ -32,8 +35,26 @@ export default function ArnsPage() {
 
   useEffect(() => {
     checkWalletConnection()
+    // The version browser links here with the version to point the name at
+    const url = new URLSearchParams(window.location.search).get("url")
+    if (url) {
+      setArweaveUrl(url)
+    }
   }, [])
 
+  // Names belong to the signing wallet, so switching signer starts over
+  useEffect(
+    () =>
+      subscribeToSigner(() => {
+        setWalletConnected(false)
+        setWalletAddress("")
+        setArnsNames([])
+        setSelectedArns("")
+        checkWalletConnection()
+      }),
+    []
+  )
+
   const checkWalletConnection = async () => {
     try {
       const address = await getWalletAddress()
@@ -92,8 +113,8 @@ export default function ArnsPage() {
     }
 
     // Validate Arweave URL - more flexible validation
-    const arweaveRegex = /^https:\/\/[a-zA-Z0-9_.-]+\.(arweave\.net|ar\.io)\/[a-zA-Z0-9_-]{43}$/
-    if (!arweaveRegex.test(arweaveUrl)) {
+    const arweaveRegex = /^https:\/\/([a-zA-Z0-9_.-]+\.)?(arweave\.net|ar\.io)\/[a-zA-Z0-9_-]{43}$/
+    if (!arweaveRegex.test(arweaveUrl) && !isLocalGatewayUrl(arweaveUrl)) {
       setError("Please enter a valid Arweave URL (e.g., https://example.arweave.net/txId or https://example.ar.io/txId)")
       return
     }
@@ -147,10 +168,11 @@ export default function ArnsPage() {
               Wallet Connection
             </CardTitle>
             <CardDescription>
-              Connect your Arweave wallet to access your ARNS names
+              Connect your Arweave wallet, or load a keyfile, to access your ARNS names
             </CardDescription>
           </CardHeader>
           <CardContent>
+            <SignerPanel className="mb-4" />
             {!walletConnected ? (
               <Button onClick={handleConnectWallet} disabled={isLoading} className="w-full">
                 {isLoading ? (
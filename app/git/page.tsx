@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, GitCommit, ExternalLink } from "lucide-react"
+import { ShineBorder } from "@/components/magicui/shine-border"
+import ParticlesBackground from "@/components/ardacity/particles-background"
+import { gatewayLinks } from "@/lib/arweave"
+import type { GraphqlTransaction } from "@/lib/graphql"
+import { findDeploymentsByCommit, findDeploymentsByRepo, isCommitSha, readProvenance } from "@/lib/provenance"
+
+export default function GitLookupPage() {
+  const [query, setQuery] = useState("")
+  const [deployments, setDeployments] = useState<GraphqlTransaction[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSearch = async () => {
+    if (!query.trim()) {
+      setError("Please enter a GitHub repository URL or a commit SHA")
+      return
+    }
+
+    setIsSearching(true)
+    setError(null)
+    setDeployments(null)
+
+    try {
+      // A bare SHA finds that commit's deployments, anything else is treated as a repository
+      setDeployments(isCommitSha(query) ? await findDeploymentsByCommit(query) : await findDeploymentsByRepo(query))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Lookup failed")
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  return (
+    <main className="container max-w-4xl mx-auto py-10 px-4">
+      <ParticlesBackground className="absolute inset-0 z-[-1]" />
+
+      <div className="space-y-6 mt-28">
+        <Card className="relative overflow-hidden">
+          <ShineBorder shineColor={"white"} />
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCommit className="h-5 w-5" />
+              Find Deployments by Git Commit
+            </CardTitle>
+            <CardDescription>
+              List every deployment of a GitHub repository, or find the deployment built from a commit
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleSearch()
+              }}
+            >
+              <Input
+                placeholder="https://github.com/username/repository or commit SHA"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                disabled={isSearching}
+              />
+              <Button type="submit" disabled={isSearching}>
+                {isSearching ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Searching
+                  </>
+                ) : (
+                  "Search"
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {deployments && (
+          <Card className="relative overflow-hidden">
+            <ShineBorder shineColor={"white"} />
+            <CardHeader>
+              <CardTitle>Deployments</CardTitle>
+              <CardDescription>
+                {deployments.length === 0
+                  ? "No deployments found"
+                  : `${deployments.length} deployment${deployments.length === 1 ? "" : "s"}, newest first`}
+              </CardDescription>
+            </CardHeader>
+            {deployments.length > 0 && (
+              <CardContent>
+                <div className="grid gap-2">
+                  {deployments.map((deployment) => {
+                    const provenance = readProvenance(deployment.tags)
+                    return (
+                      <div key={deployment.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                        <div className="flex flex-col min-w-0 text-sm">
+                          <span className="font-mono break-all">{deployment.id}</span>
+                          {provenance && (
+                            <span className="text-xs text-muted-foreground break-all">
+                              {provenance.repo} @ {provenance.ref} ({provenance.commit.slice(0, 7)})
+                            </span>
+                          )}
+                          <span className="text-xs text-muted-foreground">
+                            {deployment.block
+                              ? new Date(deployment.block.timestamp * 1000).toLocaleString()
+                              : "Pending confirmation"}
+                          </span>
+                        </div>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={gatewayLinks(deployment.id)[0]} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="mr-1 h-4 w-4" />
+                            Visit
+                          </a>
+                        </Button>
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        )}
+      </div>
+    </main>
+  )
+}
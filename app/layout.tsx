@@ -35,6 +35,15 @@ export default function RootLayout({
                   <Link href="/arns">
                     <Button variant="ghost" size="sm">ARNS Migration</Button>
                   </Link>
+                  <Link href="/receipts">
+                    <Button variant="ghost" size="sm">Verify Receipt</Button>
+                  </Link>
+                  <Link href="/versions">
+                    <Button variant="ghost" size="sm">Versions</Button>
+                  </Link>
+                  <Link href="/git">
+                    <Button variant="ghost" size="sm">Git Lookup</Button>
+                  </Link>
                 </nav>
               </div>
             </div>
@@ -1,156 +1,516 @@
 "use client"
 
 import { useState } from "react"
-import { Github, Upload, Loader2, ExternalLink, Globe } from "lucide-react"
+import { Github, Upload, Globe } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { Alert, AlertDescription } from "@/components/ui/alert"
-import { deployToArweave } from "@/lib/deploy"
-import { processGithubRepo } from "@/lib/process-github"
-import { processZipFile } from "@/lib/zip-processing"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  deployFile,
+  deploySiteFiles,
+  deployToArweave,
+  estimateDeployCost,
+  exceedsCostThreshold,
+  findIndexPath,
+  type DeployOptions,
+  type DeployResult,
+} from "@/lib/deploy"
+import { DEFAULT_PROVIDER_ID, getDeployProvider, listDeployProviders, type CostEstimate, type Tag } from "@/lib/providers"
+import { fetchGithubRepoFiles, processGithubRepo } from "@/lib/process-github"
+import { extractSiteFiles, processZipFile, type SiteFile } from "@/lib/zip-processing"
 import { processHtml, processMhtml, processUrlContent } from "@/lib/html-processor"
+import { verifyDeployment } from "@/lib/verify"
+import { createDefaultTags, extractPageMetadata, withoutPageMetadata } from "@/lib/tags"
+import { findExistingDeployment } from "@/lib/dedupe"
+import { gatewayLinks } from "@/lib/arweave"
+import { extractTransactionId, getWalletAddress, isValidArweaveId } from "@/lib/arns-utils"
+import { sha256Hex } from "@/lib/hash"
+import type { GraphqlTransaction } from "@/lib/graphql"
+import { SizeLimitError } from "@/lib/errors"
+import { HTML_SIZE_BUDGET_KB } from "@/lib/config"
+import { splitOversizedHtml } from "@/lib/split-assets"
+import { detectContentType } from "@/lib/mime"
+import { createProvenanceTags, type GitProvenance } from "@/lib/provenance"
+import { createVersionTags } from "@/lib/versions"
+import { createEncryptionTags, encryptHtml, MIN_PASSPHRASE_LENGTH } from "@/lib/encryption"
+import { signReceipt, type ReceiptSource } from "@/lib/receipts"
+import { useDeployQueue, type DeployJob, type DeployJobControls, type DeployJobInput } from "@/hooks/use-deploy-queue"
+import { TagEditor } from "@/components/tag-editor"
+import { SignerPanel } from "@/components/signer-panel"
+import { ErrorAlert } from "@/components/error-alert"
+import { DeployQueuePanel } from "@/components/deploy-queue-panel"
 import { ShineBorder } from "@/components/magicui/shine-border"
 import ParticlesBackground from "@/components/ardacity/particles-background"
 
+interface ConfirmationRequest {
+  title: string
+  description: string
+  confirmLabel: string
+  cancelLabel?: string
+  resolve: (confirmed: boolean) => void
+}
 
 export default function Home() {
   
   const [url, setUrl] = useState("")
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [deployedUrls, setDeployedUrls] = useState<string[]>([])
-  const [fileSize, setFileSize] = useState<number | null>(null)
+  // Form-level problems; each deploy's own errors show in the queue panel
+  const [error, setError] = useState<Error | string | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [providerId, setProviderId] = useState(DEFAULT_PROVIDER_ID)
+  const [multiFile, setMultiFile] = useState(false)
+  const [tags, setTags] = useState<Tag[]>(createDefaultTags)
+  const [encrypt, setEncrypt] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [previousVersion, setPreviousVersion] = useState("")
+  const [signingJobId, setSigningJobId] = useState<string | null>(null)
+  // Several jobs may ask at once, so requests wait their turn
+  const [confirmations, setConfirmations] = useState<ConfirmationRequest[]>([])
 
-  const handleUrlDeploy = async () => {
-    if (!url) {
-      setError("Please enter a URL")
+  const provider = getDeployProvider(providerId)
+  // Encryption covers a single page, so it rules out multi-file sites
+  const multiFileEnabled = multiFile && provider.supportsMultiFile && !encrypt
+  const confirmation = confirmations[0] ?? null
+
+  // Resolves once the user accepts or rejects the confirmation dialog.
+  // Cancelling the job withdraws its request, so no dialog is left asking about a deploy that no longer runs.
+  const confirm = (signal: AbortSignal, request: Omit<ConfirmationRequest, "resolve">) =>
+    new Promise<boolean>((resolve, reject) => {
+      signal.throwIfAborted()
+      const queued: ConfirmationRequest = { ...request, resolve }
+      setConfirmations((queue) => [...queue, queued])
+      signal.addEventListener(
+        "abort",
+        () => {
+          setConfirmations((queue) => queue.filter((other) => other !== queued))
+          reject(signal.reason)
+        },
+        { once: true }
+      )
+    })
+
+  const handleConfirmation = (confirmed: boolean) => {
+    confirmation?.resolve(confirmed)
+    setConfirmations((queue) => queue.filter((other) => other !== confirmation))
+  }
+
+  const deployOptions = ({ input }: DeployJob, { signal, update }: DeployJobControls): DeployOptions => ({
+    tags: input.tags,
+    signal,
+    onProgress: (progress) => update({ progress }),
+    onAttempt: (attempt) => update((job) => ({ attempts: [...job.attempts, attempt] })),
+    onFailover: async ({ provider: fallback, estimate }) => {
+      const confirmed = await confirm(signal, {
+        title: "Deploy with another target?",
+        description: `${getDeployProvider(input.providerId).label} could not complete the deployment of ${input.label}. Deploying with ${fallback.label} instead is estimated to cost ${estimate.formatted}. Do you want to continue?`,
+        confirmLabel: `Deploy with ${fallback.label}`,
+        cancelLabel: "Don't switch",
+      })
+      if (confirmed) {
+        update({ costEstimate: estimate })
+      }
+      return confirmed
+    },
+  })
+
+  // Estimates the upload cost and asks for confirmation above the configured threshold.
+  // A failed estimate never blocks the deploy.
+  const checkCost = async ({ input }: DeployJob, { signal, update }: DeployJobControls, bytes: number) => {
+    let estimate: CostEstimate
+    try {
+      estimate = await estimateDeployCost(bytes, input.providerId)
+    } catch (err) {
+      console.warn("Cost estimation failed:", err)
       return
     }
 
-    setIsLoading(true)
-    setError(null)
-    setDeployedUrls([])
+    update({ costEstimate: estimate })
+
+    const confirmed =
+      !exceedsCostThreshold(estimate) ||
+      (await confirm(signal, {
+        title: "Confirm deployment cost",
+        description: `Storing ${input.label} permanently with ${getDeployProvider(input.providerId).label} is estimated to cost ${estimate.formatted}, which is above the configured threshold. Do you want to continue?`,
+        confirmLabel: "Deploy",
+      }))
+
+    if (!confirmed) {
+      throw new Error(`Deployment cancelled. Estimated cost: ${estimate.formatted}`)
+    }
+  }
+
+  // Records the result, then waits for the chain to confirm it; confirmation can take several minutes
+  const finishDeploy = async (
+    { input }: DeployJob,
+    { signal, update }: DeployJobControls,
+    result: DeployResult,
+    expectedContent: string | Uint8Array,
+    publishedAt = new Date()
+  ) => {
+    if (!result.success) {
+      throw new Error("Deployment failed. Please try again.")
+    }
 
+    update({ state: "confirming", progress: null, result })
+
+    // Receipts need transaction IDs to be checked against the chain
+    if (result.transactionIds.length > 0) {
+      const contentSha256 = await sha256Hex(expectedContent)
+      update({
+        receiptFields: {
+          source: input.source,
+          contentSha256,
+          transactionIds: result.transactionIds,
+          tags: result.tags,
+          timestamp: publishedAt.toISOString(),
+          ...(getDeployProvider(result.providerId).signsOnServer ? { signedOnServer: true } : {}),
+        },
+      })
+    }
+
+    if (result.id) {
+      update({ linkStatuses: Object.fromEntries(result.links.map((link) => [link, "pending"])) })
+      await verifyDeployment(result.id, result.links, expectedContent, result.providerId, {
+        signal,
+        onUpdate: (link, status) => update((job) => ({ linkStatuses: { ...job.linkStatuses, [link]: status } })),
+      }).catch((err) => console.warn("Deployment verification failed:", err))
+    }
+  }
+
+  // Offers to reuse an earlier upload of identical content. A failed lookup never blocks the deploy.
+  // Only single-page and single-file uploads are tagged with their content hash, so only those call this.
+  const reuseExistingDeployment = async (
+    job: DeployJob,
+    controls: DeployJobControls,
+    content: string | Uint8Array
+  ): Promise<boolean> => {
+    // A new version needs its own transaction to carry the version tags
+    if (job.input.previousVersion) {
+      return false
+    }
+    // Without tags there's no content hash on the chain to find
+    if (!getDeployProvider(job.input.providerId).supportsTags) {
+      return false
+    }
+
+    let existing: GraphqlTransaction | null
     try {
-      const html = await processUrlContent(url)
-      const size = new Blob([html]).size / 1024 // Size in KB
-      setFileSize(size)
+      const owner = getDeployProvider(job.input.providerId).signsOnServer ? null : await getWalletAddress()
+      existing = await findExistingDeployment(await sha256Hex(content), owner)
+    } catch (err) {
+      console.warn("Duplicate lookup failed:", err)
+      return false
+    }
 
-      if (size > 3000) {
-        setError(`HTML file size (${size.toFixed(2)}KB) exceeds 3MB limit. Please use a smaller project.`)
-        setIsLoading(false)
-        return
-      }
+    if (!existing) {
+      return false
+    }
+
+    const uploadedAt = existing.block
+      ? new Date(existing.block.timestamp * 1000).toLocaleString()
+      : "recently (not yet confirmed)"
+    const reuse = await confirm(controls.signal, {
+      title: "Identical deployment found",
+      description: `The content of ${job.input.label} was already deployed ${uploadedAt} as ${existing.id}. Reuse that transaction instead of uploading again?`,
+      confirmLabel: "Reuse existing",
+      cancelLabel: "Upload again",
+    })
+
+    if (reuse) {
+      await finishDeploy(
+        job,
+        controls,
+        {
+          success: true,
+          links: gatewayLinks(existing.id),
+          id: existing.id,
+          providerId: job.input.providerId,
+          transactionIds: [existing.id],
+          tags: existing.tags,
+        },
+        content,
+        // The receipt records when the reused transaction was published, not when it was found
+        existing.block ? new Date(existing.block.timestamp * 1000) : undefined
+      )
+    }
+
+    return reuse
+  }
+
+  // Shared by every source once its HTML has been generated
+  const deployHtml = async (job: DeployJob, controls: DeployJobControls, html: string) => {
+    const { passphrase } = job.input
+    if (passphrase) {
+      html = await encryptHtml(html, passphrase)
+    }
 
-      const result = await deployToArweave(html)
-      if (result.success) {
-        setDeployedUrls(result.links)
-      } else {
-        setError("Deployment failed. Please try again.")
+    const bytes = new Blob([html]).size
+    const size = bytes / 1024 // Size in KB
+    controls.update({ fileSize: size })
+
+    if (size > HTML_SIZE_BUDGET_KB) {
+      // Large assets can only be split out when the provider can upload them as their own files,
+      // and never from an encrypted page, whose assets would then be public
+      if (passphrase || !getDeployProvider(job.input.providerId).supportsMultiFile) {
+        throw new SizeLimitError(size, HTML_SIZE_BUDGET_KB)
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An unknown error occurred")
-    } finally {
-      setIsLoading(false)
+
+      await deployFiles(job, controls, splitOversizedHtml(html, HTML_SIZE_BUDGET_KB * 1024))
+      return
+    }
+
+    // Ciphertext differs on every run, so there's never an identical deployment to reuse
+    if (!passphrase && (await reuseExistingDeployment(job, controls, html))) {
+      return
     }
+
+    await checkCost(job, controls, bytes)
+
+    controls.update({ state: "uploading", progress: 0 })
+    const result = await deployToArweave(html, job.input.providerId, deployOptions(job, controls))
+    await finishDeploy(job, controls, result, html)
   }
 
-  const handleGithubDeploy = async () => {
-    if (!url) {
-      setError("Please enter a GitHub repository URL")
+  const deployFiles = async (job: DeployJob, controls: DeployJobControls, files: SiteFile[]) => {
+    const totalBytes = files.reduce((total, file) => total + file.data.byteLength, 0)
+    await checkCost(job, controls, totalBytes)
+
+    controls.update({ state: "uploading", progress: 0 })
+    const result = await deploySiteFiles(files, job.input.providerId, deployOptions(job, controls))
+    // Links point at the manifest, which serves the index file
+    const indexFile = files.find((file) => file.path === findIndexPath(files))!
+    await finishDeploy(job, controls, result, indexFile.data)
+  }
+
+  // Files other than web pages are published byte for byte
+  const deployAsset = async (job: DeployJob, controls: DeployJobControls, file: SiteFile) => {
+    if (await reuseExistingDeployment(job, controls, file.data)) {
       return
     }
 
-    setIsLoading(true)
-    setError(null)
-    setDeployedUrls([])
+    await checkCost(job, controls, file.data.byteLength)
 
-    try {
-      console.log("Starting GitHub deployment for:", url)
-      const html = await processGithubRepo(url)
-      const size = new Blob([html]).size / 1024 // Size in KB
-      setFileSize(size)
+    controls.update({ state: "uploading", progress: 0 })
+    const result = await deployFile(file, job.input.providerId, deployOptions(job, controls))
+    await finishDeploy(job, controls, result, file.data)
+  }
 
-      console.log(`Generated HTML size: ${size.toFixed(2)}KB`)
+  const queue = useDeployQueue(async (queued, controls) => {
+    // Look up the previous version first, so a bad ID fails before any processing
+    const versioned = queued.input.previousVersion
+      ? withTags(queued, await createVersionTags(queued.input.previousVersion))
+      : queued
+    const content = await versioned.input.load(controls.signal)
+    controls.signal.throwIfAborted()
+    const job = content.provenance ? withProvenance(versioned, content.provenance) : versioned
+    if (content.warnings?.length) {
+      controls.update({ warnings: content.warnings })
+    }
 
-      if (size > 3000) {
-        setError(`HTML file size (${size.toFixed(2)}KB) exceeds 3MB limit. Please use a smaller project.`)
-        setIsLoading(false)
-        return
-      }
+    if ("file" in content) {
+      await deployAsset(job, controls, content.file)
+    } else if ("files" in content) {
+      await deployFiles(job, controls, content.files)
+    } else {
+      await deployHtml(job, controls, content.html)
+    }
+  })
 
-      const result = await deployToArweave(html)
-      if (result.success) {
-        setDeployedUrls(result.links)
-        console.log("Deployment successful:", result.links)
-      } else {
-        setError("Deployment failed. Please try again.")
-      }
+  // Captures the current provider, tags and passphrase, so editing the form doesn't change queued jobs
+  const enqueueDeploy = (label: string, source: ReceiptSource, load: DeployJobInput["load"]) => {
+    if (encrypt && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Please enter a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+
+    const previousInput = previousVersion.trim()
+    const previousId =
+      previousInput && (isValidArweaveId(previousInput) ? previousInput : extractTransactionId(previousInput))
+    if (previousId === null) {
+      setError("The previous version must be a transaction ID or an Arweave link")
+      return
+    }
+    if (previousId && !provider.supportsTags) {
+      setError(`${provider.label} can't record version tags. Choose another deploy target to publish a new version.`)
+      return
+    }
+
+    setError(null)
+    queue.enqueue({
+      label,
+      source,
+      providerId,
+      // Tags stay public, so an encrypted page's title and description are left out
+      tags: encrypt ? [...withoutPageMetadata(tags), ...createEncryptionTags()] : tags,
+      passphrase: encrypt ? passphrase : undefined,
+      previousVersion: previousId || undefined,
+      load,
+    })
+  }
+
+  // Signs on demand, since it needs a wallet prompt the deploy itself may not have
+  const handleDownloadReceipt = async (job: DeployJob) => {
+    if (!job.receiptFields) {
+      return
+    }
+
+    setSigningJobId(job.id)
+    try {
+      const signed = await signReceipt(job.receiptFields)
+      const blob = new Blob([JSON.stringify(signed, null, 2)], { type: "application/json" })
+      const link = document.createElement("a")
+      link.href = URL.createObjectURL(blob)
+      link.download = `permaway-receipt-${job.receiptFields.transactionIds[job.receiptFields.transactionIds.length - 1]}.json`
+      link.click()
+      URL.revokeObjectURL(link.href)
     } catch (err) {
-      console.error("GitHub deployment error:", err)
-      setError(err instanceof Error ? err.message : "An unknown error occurred")
+      setError(err instanceof Error ? err : "Could not sign the receipt")
     } finally {
-      setIsLoading(false)
+      setSigningJobId(null)
+    }
+  }
+
+  const handleUrlDeploy = () => {
+    if (!url) {
+      setError("Please enter a URL")
+      return
     }
+
+    const target = url
+    enqueueDeploy(target, { type: "url", url: target }, async (signal) => ({
+      html: await processUrlContent(target, signal),
+    }))
   }
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleGithubDeploy = () => {
+    if (!url) {
+      setError("Please enter a GitHub repository URL")
+      return
+    }
+
+    const repo = url
+    const asFiles = multiFileEnabled
+
+    // The repository is downloaded from its default branch; the receipt is pinned to the commit once it's known
+    enqueueDeploy(repo, { type: "github", repo, ref: "HEAD" }, (signal) =>
+      asFiles ? fetchGithubRepoFiles(repo, signal) : processGithubRepo(repo, signal)
+    )
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0])
+      const file = e.target.files[0]
+      setSelectedFile(file)
       setError(null)
+
+      // Prefill blank Title and Description tags from the chosen page
+      if (/\.html?$/i.test(file.name)) {
+        const metadata = extractPageMetadata(await file.text())
+        const pageValues: Record<string, string | undefined> = {
+          Title: metadata.title,
+          Description: metadata.description,
+        }
+        setTags((current) =>
+          current.map((tag) => (!tag.value && pageValues[tag.name] ? { ...tag, value: pageValues[tag.name]! } : tag))
+        )
+      }
     }
   }
 
-  const handleFileDeploy = async () => {
+  const handleFileDeploy = () => {
     if (!selectedFile) {
       setError("Please select a file")
       return
     }
 
-    setIsLoading(true)
-    setError(null)
-    setDeployedUrls([])
+    const file = selectedFile
+    const source: ReceiptSource = { type: "file", name: file.name }
 
-    try {
-      let html: string
-
-      if (selectedFile.name.endsWith('.html')) {
-        const content = await selectedFile.text()
-        html = processHtml(content)
-      } else if (selectedFile.name.endsWith('.mhtml')) {
-        const content = await selectedFile.text()
-        html = processMhtml(content)
-      } else if (selectedFile.name.endsWith('.zip')) {
-        html = await processZipFile(selectedFile)
-      } else {
-        throw new Error("Unsupported file type. Please upload an HTML, MHTML, or ZIP file.")
+    if (!isWebPageFile(file.name)) {
+      if (!provider.supportsMultiFile) {
+        setError(`${provider.label} can only deploy web pages. Choose another deploy target to publish ${file.name} as-is.`)
+        return
       }
-
-      const size = new Blob([html]).size / 1024 // Size in KB
-      setFileSize(size)
-
-      if (size > 3000) {
-        setError(`HTML file size (${size.toFixed(2)}KB) exceeds 3MB limit. Please use a smaller project.`)
-        setIsLoading(false)
+      if (encrypt) {
+        setError("Encryption is only available for web pages")
         return
       }
 
-      const result = await deployToArweave(html)
-      if (result.success) {
-        setDeployedUrls(result.links)
-      } else {
-        setError("Deployment failed. Please try again.")
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An unknown error occurred")
-    } finally {
-      setIsLoading(false)
+      enqueueDeploy(file.name, source, async () => {
+        const data = new Uint8Array(await file.arrayBuffer())
+        return { file: { path: file.name, contentType: detectContentType(data, file.name), data } }
+      })
+      return
     }
+
+    const asFiles = multiFileEnabled && /\.zip$/i.test(file.name)
+
+    enqueueDeploy(file.name, source, async () =>
+      asFiles ? { files: await extractSiteFiles(file) } : loadFilePage(file)
+    )
   }
 
+  const advancedSection = (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="advanced" className="border-b-0">
+        <AccordionTrigger className="py-2 text-sm">Advanced</AccordionTrigger>
+        <AccordionContent className="flex flex-col gap-2">
+          <p className="text-xs text-muted-foreground">
+            {provider.supportsTags
+              ? "Arweave tags attached to the deployment"
+              : `${provider.label} doesn't apply tags, so tags and version history need another deploy target`}
+          </p>
+          {provider.supportsTags && <TagEditor tags={tags} onChange={setTags} />}
+          <Label htmlFor="previous-version" className="pt-2 font-normal">
+            New version of
+          </Label>
+          <Input
+            id="previous-version"
+            placeholder="Transaction ID or link of the version this replaces (optional)"
+            value={previousVersion}
+            onChange={(e) => setPreviousVersion(e.target.value)}
+            disabled={!provider.supportsTags}
+          />
+          <div className="flex items-center gap-2 pt-2">
+            <Checkbox id="encrypt" checked={encrypt} onCheckedChange={(checked) => setEncrypt(checked === true)} />
+            <Label htmlFor="encrypt" className="font-normal">
+              Encrypt with a passphrase
+            </Label>
+          </div>
+          {encrypt && (
+            <>
+              <Input
+                type="password"
+                placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                The page is encrypted in your browser and deployed behind an unlock page. The passphrase can&apos;t be
+                recovered. Title and Description tags are left out, and the other tags stay public.
+              </p>
+            </>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  )
+
   return (
     <main className="container max-w-3xl mx-auto py-10 px-4 " >
       <ParticlesBackground className="absolute inset-0 z-[-1]" />
@@ -169,6 +529,25 @@ export default function Home() {
           <TabsTrigger value="file">Upload File</TabsTrigger>
         </TabsList>
 
+        <div className="flex flex-col gap-2 mb-6">
+          <Label htmlFor="deploy-provider">Deploy with</Label>
+          <Select value={providerId} onValueChange={setProviderId}>
+            <SelectTrigger id="deploy-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {listDeployProviders().map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{provider.description}</p>
+          {/* The hosted backend signs on the server, so there's nothing to choose */}
+          {!provider.signsOnServer && <SignerPanel />}
+        </div>
+
         <TabsContent value="url">
           <Card className="relative overflow-hidden">
             <ShineBorder shineColor={"white"} />
@@ -183,22 +562,13 @@ export default function Home() {
                     placeholder="https://example.com"
                     value={url}
                     onChange={(e) => setUrl(e.target.value)}
-                    disabled={isLoading}
                   />
-                  <Button onClick={handleUrlDeploy} disabled={isLoading}>
-                    {isLoading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Processing
-                      </>
-                    ) : (
-                      <>
-                        <Globe className="mr-2 h-4 w-4" />
-                        Deploy
-                      </>
-                    )}
+                  <Button onClick={handleUrlDeploy}>
+                    <Globe className="mr-2 h-4 w-4" />
+                    Deploy
                   </Button>
                 </div>
+                {advancedSection}
               </div>
             </CardContent>
           </Card>
@@ -224,27 +594,27 @@ export default function Home() {
                     placeholder="https://github.com/username/repository"
                     value={url}
                     onChange={(e) => setUrl(e.target.value)}
-                    disabled={isLoading}
                   />
-                  <Button onClick={handleGithubDeploy} disabled={isLoading}>
-                    {isLoading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Processing
-                      </>
-                    ) : (
-                      <>
-                        <Github className="mr-2 h-4 w-4" />
-                        Deploy
-                      </>
-                    )}
+                  <Button onClick={handleGithubDeploy}>
+                    <Github className="mr-2 h-4 w-4" />
+                    Deploy
                   </Button>
                 </div>
-                {isLoading && (
-                  <div className="text-sm text-muted-foreground">
-                    Fetching repository and processing files...
-                  </div>
-                )}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="multi-file-github"
+                    checked={multiFileEnabled}
+                    onCheckedChange={(checked) => setMultiFile(checked === true)}
+                    disabled={!provider.supportsMultiFile || encrypt}
+                  />
+                  <Label htmlFor="multi-file-github" className="font-normal">
+                    Deploy as a multi-file site (path manifest)
+                    {!provider.supportsMultiFile && (
+                      <span className="text-muted-foreground"> — not supported by {provider.label}</span>
+                    )}
+                  </Label>
+                </div>
+                {advancedSection}
               </div>
             </CardContent>
           </Card>
@@ -255,74 +625,101 @@ export default function Home() {
             <ShineBorder shineColor={"white"} />
             <CardHeader>
               <CardTitle>Upload File</CardTitle>
-              <CardDescription>Upload an HTML, MHTML, or ZIP file containing your project</CardDescription>
+              <CardDescription>
+                Upload an HTML, MHTML, or ZIP file containing your project, or any other file to publish as-is
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="flex flex-col gap-4">
                 <div className="flex gap-2">
                   <Input
                     type="file"
-                    accept=".html,.htm,.mhtml,.zip"
                     onChange={handleFileChange}
-                    disabled={isLoading}
                   />
-                  <Button onClick={handleFileDeploy} disabled={isLoading || !selectedFile}>
-                    {isLoading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Processing
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="mr-2 h-4 w-4" />
-                        Deploy
-                      </>
-                    )}
+                  <Button onClick={handleFileDeploy} disabled={!selectedFile}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Deploy
                   </Button>
                 </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="multi-file-file"
+                    checked={multiFileEnabled}
+                    onCheckedChange={(checked) => setMultiFile(checked === true)}
+                    disabled={!provider.supportsMultiFile || encrypt}
+                  />
+                  <Label htmlFor="multi-file-file" className="font-normal">
+                    Deploy as a multi-file site (path manifest)
+                    {!provider.supportsMultiFile && (
+                      <span className="text-muted-foreground"> — not supported by {provider.label}</span>
+                    )}
+                  </Label>
+                </div>
+                {advancedSection}
               </div>
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
 
-      {error && (
-        <Alert variant="destructive" className="mt-6">
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
+      {error && <ErrorAlert error={error} className="mt-6" />}
 
-      {fileSize !== null && !error && (
-        <Alert className="mt-6">
-          <AlertDescription>
-            HTML file size: {fileSize.toFixed(2)}KB {fileSize > 2700 && "(approaching 3MB limit)"}
-          </AlertDescription>
-        </Alert>
-      )}
+      <AlertDialog open={confirmation !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmation?.title}</AlertDialogTitle>
+            <AlertDialogDescription className="break-words">{confirmation?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => handleConfirmation(false)}>
+              {confirmation?.cancelLabel ?? "Cancel"}
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleConfirmation(true)}>{confirmation?.confirmLabel}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
 
-      {deployedUrls.length > 0 && (
-        <Card className="mt-6">
-          <CardHeader>
-            <CardTitle>Deployment Successful!</CardTitle>
-            <CardDescription>Your site has been deployed to Arweave</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col gap-2">
-              {deployedUrls.map((url, index) => (
-                <div key={index} className="flex items-center justify-between p-3 border rounded-md">
-                  <span className="text-sm truncate max-w-[80%]">{url}</span>
-                  <Button variant="outline" size="sm" asChild>
-                    <a href={url} target="_blank" rel="noopener noreferrer">
-                      <ExternalLink className="h-4 w-4 mr-1" />
-                      Visit
-                    </a>
-                  </Button>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+      {queue.jobs.length > 0 && (
+        <DeployQueuePanel
+          jobs={queue.jobs}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onClearFinished={queue.clearFinished}
+          onDownloadReceipt={handleDownloadReceipt}
+          signingJobId={signingJobId}
+        />
       )}
     </main>
   )
-}
\ No newline at end of file
+}
+
+function withTags(job: DeployJob, tags: Tag[]): DeployJob {
+  return { ...job, input: { ...job.input, tags: [...job.input.tags, ...tags] } }
+}
+
+// Tags the deployment with the commit that was actually downloaded, and pins its receipt to that commit
+function withProvenance(job: DeployJob, provenance: GitProvenance): DeployJob {
+  const tagged = withTags(job, createProvenanceTags(provenance))
+  return {
+    ...tagged,
+    input: { ...tagged.input, source: { type: "github", repo: provenance.repo, ref: provenance.commit } },
+  }
+}
+
+// Pages, archives and saved pages go through the HTML processors; anything else is published unchanged
+function isWebPageFile(name: string): boolean {
+  return /\.(html?|mhtml|zip)$/i.test(name)
+}
+
+async function loadFilePage(file: File): Promise<{ html: string; warnings?: string[] }> {
+  if (/\.html?$/i.test(file.name)) {
+    return { html: await processHtml(await file.text()) }
+  }
+  if (/\.mhtml$/i.test(file.name)) {
+    return { html: await processMhtml(await file.text()) }
+  }
+  if (/\.zip$/i.test(file.name)) {
+    return processZipFile(file)
+  }
+  throw new Error("Unsupported file type. Please upload an HTML, MHTML, or ZIP file.")
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, FileCheck, CheckCircle, XCircle } from "lucide-react"
+import { ShineBorder } from "@/components/magicui/shine-border"
+import ParticlesBackground from "@/components/ardacity/particles-background"
+import { parseSignedReceipt, verifyReceipt, type ReceiptCheck, type SignedReceipt } from "@/lib/receipts"
+
+export default function ReceiptsPage() {
+  const [signed, setSigned] = useState<SignedReceipt | null>(null)
+  const [checks, setChecks] = useState<ReceiptCheck[]>([])
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setChecks([])
+    setSigned(null)
+    setError(null)
+
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      setSigned(parseSignedReceipt(await file.text()))
+    } catch (err) {
+      setError(err instanceof SyntaxError ? "The file is not valid JSON." : err instanceof Error ? err.message : "Could not read the receipt")
+    }
+  }
+
+  const handleVerify = async () => {
+    if (!signed) return
+
+    setIsVerifying(true)
+    setError(null)
+
+    try {
+      setChecks(await verifyReceipt(signed))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed")
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const allPassed = checks.length > 0 && checks.every((check) => check.passed)
+
+  return (
+    <main className="container max-w-4xl mx-auto py-10 px-4">
+      <ParticlesBackground className="absolute inset-0 z-[-1]" />
+
+      <div className="space-y-6 mt-28">
+        <Card className="relative overflow-hidden">
+          <ShineBorder shineColor={"white"} />
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileCheck className="h-5 w-5" />
+              Verify Deployment Receipt
+            </CardTitle>
+            <CardDescription>
+              Check a signed receipt against its signature and the Arweave chain
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input type="file" accept=".json,application/json" onChange={handleFileChange} disabled={isVerifying} />
+
+            {signed && (
+              <div className="grid gap-1 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Source: </span>
+                  {signed.receipt.source.type === "url" && signed.receipt.source.url}
+                  {signed.receipt.source.type === "github" && `${signed.receipt.source.repo} @ ${signed.receipt.source.ref}`}
+                  {signed.receipt.source.type === "file" && signed.receipt.source.name}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Published: </span>
+                  {new Date(signed.receipt.timestamp).toLocaleString()}
+                </div>
+                <div className="break-all">
+                  <span className="text-muted-foreground">Wallet: </span>
+                  <span className="font-mono">{signed.receipt.walletAddress}</span>
+                  {signed.receipt.signedOnServer && (
+                    <span className="text-muted-foreground"> (uploaded through the deploy backend)</span>
+                  )}
+                </div>
+                <div className="break-all">
+                  <span className="text-muted-foreground">Content SHA-256: </span>
+                  <span className="font-mono">{signed.receipt.contentSha256}</span>
+                </div>
+              </div>
+            )}
+
+            <Button onClick={handleVerify} disabled={!signed || isVerifying} className="w-full">
+              {isVerifying ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Verify Receipt"
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {checks.length > 0 && (
+          <Card className="relative overflow-hidden">
+            <ShineBorder shineColor={"white"} />
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                Results
+                {allPassed ? (
+                  <Badge className="bg-green-600 hover:bg-green-600">Verified</Badge>
+                ) : (
+                  <Badge variant="destructive">Not verified</Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-2">
+                {checks.map((check, index) => (
+                  <div key={index} className="flex items-start gap-2 p-3 border rounded-lg">
+                    {check.passed ? (
+                      <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                    )}
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-sm font-medium break-all">{check.label}</span>
+                      {check.detail && (
+                        <span className="text-xs text-muted-foreground font-mono break-all">{check.detail}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  )
+}
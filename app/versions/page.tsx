@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, History, ExternalLink, Globe } from "lucide-react"
+import { ShineBorder } from "@/components/magicui/shine-border"
+import ParticlesBackground from "@/components/ardacity/particles-background"
+import { gatewayLinks } from "@/lib/arweave"
+import { extractTransactionId, isValidArweaveId } from "@/lib/arns-utils"
+import { findVersionHistory, type SiteVersion } from "@/lib/versions"
+
+export default function VersionsPage() {
+  const [query, setQuery] = useState("")
+  const [versions, setVersions] = useState<SiteVersion[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = async (value: string) => {
+    const input = value.trim()
+    const id = isValidArweaveId(input) ? input : extractTransactionId(input)
+    if (!id) {
+      setError("Please enter a transaction ID or an Arweave link")
+      return
+    }
+
+    setIsSearching(true)
+    setError(null)
+    setVersions(null)
+
+    try {
+      setVersions(await findVersionHistory(id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the version history")
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  // Links from elsewhere open straight onto a site's history
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("id")
+    if (id) {
+      setQuery(id)
+      search(id)
+    }
+  }, [])
+
+  return (
+    <main className="container max-w-4xl mx-auto py-10 px-4">
+      <ParticlesBackground className="absolute inset-0 z-[-1]" />
+
+      <div className="space-y-6 mt-28">
+        <Card className="relative overflow-hidden">
+          <ShineBorder shineColor={"white"} />
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History
+            </CardTitle>
+            <CardDescription>
+              Enter any version of a site to list every version in its chain
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                search(query)
+              }}
+            >
+              <Input
+                placeholder="Transaction ID or https://arweave.net/txId"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                disabled={isSearching}
+              />
+              <Button type="submit" disabled={isSearching}>
+                {isSearching ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading
+                  </>
+                ) : (
+                  "Show Versions"
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {versions && (
+          <Card className="relative overflow-hidden">
+            <ShineBorder shineColor={"white"} />
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+              <CardDescription>
+                {versions.length} version{versions.length === 1 ? "" : "s"}, newest first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-2">
+                {versions.map((version, index) => {
+                  const link = gatewayLinks(version.id)[0]
+                  return (
+                    <div key={version.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                      <div className="flex flex-col min-w-0 text-sm">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">Version {version.version}</span>
+                          {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                        </div>
+                        <span className="font-mono text-xs break-all">{version.id}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {version.timestamp
+                            ? new Date(version.timestamp * 1000).toLocaleString()
+                            : "Pending confirmation"}
+                          {" · "}
+                          {(version.size / 1024).toFixed(2)}KB
+                        </span>
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={link} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="mr-1 h-4 w-4" />
+                            Open
+                          </a>
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={`/arns?url=${encodeURIComponent(link)}`}>
+                            <Globe className="mr-1 h-4 w-4" />
+                            Use for ARNS
+                          </Link>
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { CheckCircle2, RotateCw, XCircle } from "lucide-react"
+import type { DeployAttempt } from "@/lib/deploy"
+
+/**
+ * Lists every upload attempt of a deploy, including retries and failovers
+ */
+export function AttemptLog({ attempts, className }: { attempts: DeployAttempt[]; className?: string }) {
+  return (
+    <div className={className}>
+      <h3 className="mb-2 text-sm font-medium">Upload attempts</h3>
+      <ol className="flex flex-col gap-1 text-xs">
+        {attempts.map((attempt, index) => (
+          <li key={index} className="flex items-start gap-2">
+            {!attempt.error ? (
+              <CheckCircle2 className="mt-0.5 h-3 w-3 shrink-0 text-green-500" />
+            ) : attempt.retryInMs !== undefined ? (
+              <RotateCw className="mt-0.5 h-3 w-3 shrink-0 text-yellow-500" />
+            ) : (
+              <XCircle className="mt-0.5 h-3 w-3 shrink-0 text-red-500" />
+            )}
+            <span className="break-all">
+              <span className="font-medium">
+                {attempt.providerLabel}
+                {attempt.endpoint && ` (${endpointLabel(attempt.endpoint)})`}
+              </span>{" "}
+              attempt {attempt.attempt}, {(attempt.durationMs / 1000).toFixed(1)}s:{" "}
+              {attempt.error ?? "succeeded"}
+              {attempt.retryInMs !== undefined && ` Retrying in ${(attempt.retryInMs / 1000).toFixed(1)}s.`}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+// Endpoints are URLs, or labels when the server keeps the address private
+function endpointLabel(endpoint: string): string {
+  try {
+    return new URL(endpoint).host
+  } catch {
+    return endpoint
+  }
+}
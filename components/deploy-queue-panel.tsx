@@ -0,0 +1,233 @@
+"use client"
+
+import Link from "next/link"
+import { AlertTriangle, ExternalLink, FileCheck, Loader2, RotateCw, X } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { AttemptLog } from "@/components/attempt-log"
+import { ErrorAlert } from "@/components/error-alert"
+import type { DeployJob, DeployJobState } from "@/hooks/use-deploy-queue"
+import { HTML_SIZE_BUDGET_KB } from "@/lib/config"
+import { getDeployProvider } from "@/lib/providers"
+import type { LinkVerification } from "@/lib/verify"
+
+interface DeployQueuePanelProps {
+  jobs: DeployJob[]
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onClearFinished: () => void
+  onDownloadReceipt: (job: DeployJob) => void
+  // Job whose receipt is waiting on a wallet signature
+  signingJobId: string | null
+}
+
+const STATE_LABELS: Record<DeployJobState, string> = {
+  queued: "Queued",
+  processing: "Processing",
+  uploading: "Uploading",
+  confirming: "Confirming",
+  done: "Done",
+  failed: "Failed",
+}
+
+const CANCELLABLE_STATES: DeployJobState[] = ["queued", "processing", "uploading", "confirming"]
+
+/**
+ * Lists queued, running and finished deploys with their progress, results and controls
+ */
+export function DeployQueuePanel({
+  jobs,
+  onCancel,
+  onRetry,
+  onClearFinished,
+  onDownloadReceipt,
+  signingJobId,
+}: DeployQueuePanelProps) {
+  const hasFinished = jobs.some((job) => job.state === "done" || job.state === "failed")
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="flex flex-col gap-1.5">
+          <CardTitle>Deployments</CardTitle>
+          <CardDescription>Deploys run in the background; queue as many as you like</CardDescription>
+        </div>
+        {hasFinished && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {jobs.map((job) => (
+          <DeployJobRow
+            key={job.id}
+            job={job}
+            onCancel={() => onCancel(job.id)}
+            onRetry={() => onRetry(job.id)}
+            onDownloadReceipt={() => onDownloadReceipt(job)}
+            isSigning={signingJobId === job.id}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+function DeployJobRow({
+  job,
+  onCancel,
+  onRetry,
+  onDownloadReceipt,
+  isSigning,
+}: {
+  job: DeployJob
+  onCancel: () => void
+  onRetry: () => void
+  onDownloadReceipt: () => void
+  isSigning: boolean
+}) {
+  const provider = getDeployProvider(job.result?.providerId ?? job.input.providerId)
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 flex-col">
+          <span className="truncate text-sm font-medium">{job.input.label}</span>
+          <span className="text-xs text-muted-foreground">{provider.label}</span>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <JobStateBadge state={job.state} />
+          {CANCELLABLE_STATES.includes(job.state) && (
+            <Button variant="ghost" size="icon" onClick={onCancel} aria-label={`Cancel ${job.input.label}`}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+          {job.state === "failed" && (
+            <Button variant="ghost" size="icon" onClick={onRetry} aria-label={`Retry ${job.input.label}`}>
+              <RotateCw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {job.state === "uploading" && job.progress !== null && (
+        <div className="flex items-center gap-2">
+          <Progress value={job.progress} />
+          <span className="w-10 text-right text-xs text-muted-foreground">{job.progress.toFixed(0)}%</span>
+        </div>
+      )}
+
+      {(job.fileSize !== null || job.costEstimate) && (
+        <div className="text-xs text-muted-foreground">
+          {job.fileSize !== null && (
+            <div>
+              HTML file size: {job.fileSize.toFixed(2)}KB{" "}
+              {job.fileSize > HTML_SIZE_BUDGET_KB
+                ? "(large assets were split into separate files)"
+                : job.fileSize > HTML_SIZE_BUDGET_KB * 0.9 && `(approaching the ${HTML_SIZE_BUDGET_KB}KB budget)`}
+            </div>
+          )}
+          {job.costEstimate && <div>Estimated cost: {job.costEstimate.formatted}</div>}
+        </div>
+      )}
+
+      {job.state === "failed" && job.error && <ErrorAlert error={job.error} />}
+
+      {job.warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {job.warnings.length} unresolved reference{job.warnings.length === 1 ? "" : "s"}
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 text-xs break-all">
+              {job.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* A single clean attempt isn't worth showing */}
+      {job.attempts.some((attempt) => attempt.error) && <AttemptLog attempts={job.attempts} />}
+
+      {job.result && (
+        <div className="flex flex-col gap-2">
+          {job.result.id && (
+            <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+              <span>
+                {provider.idLabel}: <span className="font-mono break-all">{job.result.id}</span>
+              </span>
+              <Link href={`/versions?id=${job.result.id}`} className="shrink-0 text-xs underline underline-offset-4">
+                Version history
+              </Link>
+            </div>
+          )}
+          {job.result.links.map((url) => (
+            <div key={url} className="flex items-center justify-between rounded-md border p-3">
+              <span className="max-w-[60%] truncate text-sm">{url}</span>
+              <div className="flex items-center gap-2">
+                {job.linkStatuses[url] && <VerificationBadge status={job.linkStatuses[url]} />}
+                <Button variant="outline" size="sm" asChild>
+                  <a href={url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-1 h-4 w-4" />
+                    Visit
+                  </a>
+                </Button>
+              </div>
+            </div>
+          ))}
+          {job.receiptFields && (
+            <Button variant="outline" size="sm" className="self-start" onClick={onDownloadReceipt} disabled={isSigning}>
+              {isSigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileCheck className="mr-2 h-4 w-4" />}
+              Download signed receipt
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function JobStateBadge({ state }: { state: DeployJobState }) {
+  if (state === "done") {
+    return <Badge className="bg-green-600 hover:bg-green-600">{STATE_LABELS[state]}</Badge>
+  }
+
+  if (state === "failed") {
+    return <Badge variant="destructive">{STATE_LABELS[state]}</Badge>
+  }
+
+  if (state === "queued") {
+    return <Badge variant="outline">{STATE_LABELS[state]}</Badge>
+  }
+
+  return (
+    <Badge variant="secondary">
+      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      {STATE_LABELS[state]}
+    </Badge>
+  )
+}
+
+function VerificationBadge({ status }: { status: LinkVerification }) {
+  if (status === "confirmed") {
+    return <Badge className="bg-green-600 hover:bg-green-600">Confirmed</Badge>
+  }
+
+  if (status === "mismatched") {
+    return <Badge variant="destructive">Content mismatch</Badge>
+  }
+
+  return (
+    <Badge variant="secondary">
+      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      Pending
+    </Badge>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import {
+  AlertCircle,
+  FileWarning,
+  FileX,
+  PenOff,
+  ServerCrash,
+  ShieldAlert,
+  Wallet,
+  WifiOff,
+  type LucideIcon,
+} from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { PermawayError, type PermawayErrorCode } from "@/lib/errors"
+
+const ERROR_PRESENTATION: Record<PermawayErrorCode, { title: string; icon: LucideIcon; destructive: boolean }> = {
+  SIZE_LIMIT: { title: "Too large to deploy", icon: FileWarning, destructive: true },
+  NETWORK: { title: "Network error", icon: WifiOff, destructive: true },
+  PROXY: { title: "Download failed", icon: ShieldAlert, destructive: true },
+  BACKEND_STATUS: { title: "Service error", icon: ServerCrash, destructive: true },
+  PARSE_FAILURE: { title: "Could not process input", icon: FileX, destructive: true },
+  // Declining a signature is a choice rather than a failure
+  SIGNATURE_REJECTED: { title: "Signature declined", icon: PenOff, destructive: false },
+  INSUFFICIENT_FUNDS: { title: "Insufficient funds", icon: Wallet, destructive: true },
+}
+
+/**
+ * Renders a pipeline error, with its details and suggested fix when it is a PermawayError
+ */
+export function ErrorAlert({ error, className }: { error: Error | string; className?: string }) {
+  if (!(error instanceof PermawayError)) {
+    return (
+      <Alert variant="destructive" className={className}>
+        <AlertDescription>{typeof error === "string" ? error : error.message}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  const { title, icon: Icon, destructive } = ERROR_PRESENTATION[error.code]
+
+  return (
+    <Alert variant={destructive ? "destructive" : "default"} className={className}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="flex flex-col gap-2">
+        <span>{error.message}</span>
+        {Object.keys(error.details).length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 text-xs opacity-80">
+            {Object.entries(error.details)
+              .filter(([, value]) => value !== "")
+              .map(([key, value]) => (
+                <div key={key} className="contents">
+                  <dt className="font-medium capitalize">{key}</dt>
+                  <dd className="break-all">{value}</dd>
+                </div>
+              ))}
+          </dl>
+        )}
+        <span className="flex items-start gap-1 text-sm font-medium">
+          <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+          {error.suggestion}
+        </span>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useRef, useState, useSyncExternalStore } from "react"
+import { KeyRound } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { forgetKeyfile, getActiveSigner, loadKeyfile, subscribeToSigner, type ActiveSigner } from "@/lib/signer"
+
+/**
+ * Shows which signer is active and lets the user load or forget a keyfile
+ */
+export function SignerPanel({ className }: { className?: string }) {
+  const signer = useSyncExternalStore(subscribeToSigner, getActiveSigner, getActiveSigner)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Clear the input so choosing the same file again still fires a change
+    e.target.value = ""
+    if (!file) return
+
+    setError(null)
+    try {
+      await loadKeyfile(file)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the keyfile")
+    }
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-2 rounded-md border p-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2 text-sm">
+          <KeyRound className="h-4 w-4 shrink-0" />
+          <span className="text-muted-foreground">Signing with</span>
+          <SignerBadge signer={signer} />
+        </div>
+        {signer.type !== "local" && (
+          <div className="flex gap-2">
+            <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+            <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+              {signer.type === "keyfile" ? "Load another keyfile" : "Load keyfile"}
+            </Button>
+            {signer.type === "keyfile" && (
+              <Button variant="ghost" size="sm" onClick={forgetKeyfile}>
+                Forget
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+      {signer.type === "keyfile" && (
+        <p className="text-xs text-muted-foreground">
+          {signer.fileName} is held in memory for this session only and is never saved. Reloading the page forgets it.
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+function SignerBadge({ signer }: { signer: ActiveSigner }) {
+  if (signer.type === "local") {
+    return <Badge variant="secondary">Local test wallet</Badge>
+  }
+
+  if (signer.type === "keyfile") {
+    return (
+      <Badge className="font-mono">
+        Keyfile {signer.address.slice(0, 6)}...{signer.address.slice(-6)}
+      </Badge>
+    )
+  }
+
+  return <Badge variant="outline">ArConnect extension</Badge>
+}
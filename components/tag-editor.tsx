@@ -0,0 +1,85 @@
+"use client"
+
+import { Plus, Scale, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { Tag } from "@/lib/providers"
+import { createLicenseTags } from "@/lib/tags"
+
+interface TagEditorProps {
+  tags: Tag[]
+  onChange: (tags: Tag[]) => void
+  disabled?: boolean
+}
+
+// Shown in place of values that are filled in from the page when left blank
+const VALUE_PLACEHOLDERS: Record<string, string> = {
+  Title: "Defaults to the page <title>",
+  Description: "Defaults to the page meta description",
+}
+
+/**
+ * Editable list of Arweave tags attached to a deployment
+ */
+export function TagEditor({ tags, onChange, disabled }: TagEditorProps) {
+  const updateTag = (index: number, changes: Partial<Tag>) => {
+    onChange(tags.map((tag, i) => (i === index ? { ...tag, ...changes } : tag)))
+  }
+
+  const removeTag = (index: number) => {
+    onChange(tags.filter((_, i) => i !== index))
+  }
+
+  const hasLicense = tags.some((tag) => tag.name === "License")
+
+  return (
+    <div className="flex flex-col gap-2">
+      {tags.map((tag, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            placeholder="Name"
+            value={tag.name}
+            onChange={(e) => updateTag(index, { name: e.target.value })}
+            disabled={disabled}
+            className="w-2/5"
+          />
+          <Input
+            placeholder={VALUE_PLACEHOLDERS[tag.name] || "Value"}
+            value={tag.value}
+            onChange={(e) => updateTag(index, { value: e.target.value })}
+            disabled={disabled}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeTag(index)}
+            disabled={disabled}
+            aria-label={`Remove ${tag.name || "tag"}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...tags, { name: "", value: "" }])}
+          disabled={disabled}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add tag
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...tags, ...createLicenseTags()])}
+          disabled={disabled || hasLicense}
+        >
+          <Scale className="mr-1 h-4 w-4" />
+          Add Universal Data License
+        </Button>
+      </div>
+    </div>
+  )
+}
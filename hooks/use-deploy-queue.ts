@@ -0,0 +1,168 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { DEPLOY_CONCURRENCY } from "@/lib/config"
+import type { DeployAttempt, DeployResult } from "@/lib/deploy"
+import type { CostEstimate, Tag } from "@/lib/providers"
+import type { ReceiptFields, ReceiptSource } from "@/lib/receipts"
+import type { GitProvenance } from "@/lib/provenance"
+import type { LinkVerification } from "@/lib/verify"
+import type { SiteFile } from "@/lib/zip-processing"
+
+// Only processing and uploading hold a concurrency slot; confirming waits on the chain, not on us
+export type DeployJobState = "queued" | "processing" | "uploading" | "confirming" | "done" | "failed"
+
+export interface DeployJobInput {
+  label: string
+  source: ReceiptSource
+  // Settings are captured when the job is queued, so later changes in the form don't affect it
+  providerId: string
+  tags: Tag[]
+  // Set when the page should be encrypted before upload
+  passphrase?: string
+  // Transaction this deployment is a new version of
+  previousVersion?: string
+  load: (signal: AbortSignal) => Promise<DeployContent>
+}
+
+// A single page, the files of a multi-file site, or a file published as-is, with the commit it came from if known
+// and any references that couldn't be resolved while building the page
+export type DeployContent = ({ html: string } | { files: SiteFile[] } | { file: SiteFile }) & {
+  provenance?: GitProvenance
+  warnings?: string[]
+}
+
+export interface DeployJob {
+  id: string
+  input: DeployJobInput
+  state: DeployJobState
+  progress: number | null
+  fileSize: number | null
+  costEstimate: CostEstimate | null
+  attempts: DeployAttempt[]
+  result: DeployResult | null
+  linkStatuses: Record<string, LinkVerification>
+  receiptFields: ReceiptFields | null
+  warnings: string[]
+  error: Error | string | null
+}
+
+export interface DeployJobControls {
+  signal: AbortSignal
+  // Ignored once the job is cancelled, so a late callback can't revive it
+  update: (changes: Partial<DeployJob> | ((job: DeployJob) => Partial<DeployJob>)) => void
+}
+
+/**
+ * Runs deploy jobs with limited concurrency, tracking each job's state for the queue panel
+ */
+export function useDeployQueue(
+  runJob: (job: DeployJob, controls: DeployJobControls) => Promise<void>,
+  concurrency = DEPLOY_CONCURRENCY
+) {
+  const [jobs, setJobs] = useState<DeployJob[]>([])
+  const controllers = useRef(new Map<string, AbortController>())
+  // runJob closes over page state, so always call the latest one
+  const runJobRef = useRef(runJob)
+  runJobRef.current = runJob
+
+  const updateJob = useCallback((id: string, changes: Partial<DeployJob> | ((job: DeployJob) => Partial<DeployJob>)) => {
+    setJobs((current) =>
+      current.map((job) => (job.id === id ? { ...job, ...(typeof changes === "function" ? changes(job) : changes) } : job))
+    )
+  }, [])
+
+  const start = useCallback(
+    (job: DeployJob) => {
+      const controller = new AbortController()
+      controllers.current.set(job.id, controller)
+
+      const update: DeployJobControls["update"] = (changes) => {
+        if (!controller.signal.aborted) {
+          updateJob(job.id, changes)
+        }
+      }
+
+      update({ state: "processing" })
+      runJobRef
+        .current(job, { signal: controller.signal, update })
+        .then(() => update({ state: "done", progress: null }))
+        .catch((error) => {
+          console.error(`Deploy job ${job.input.label} failed:`, error)
+          update({ state: "failed", progress: null, error: error instanceof Error ? error : "An unknown error occurred" })
+        })
+        .finally(() => {
+          if (controllers.current.get(job.id) === controller) {
+            controllers.current.delete(job.id)
+          }
+        })
+    },
+    [updateJob]
+  )
+
+  // Start queued jobs, oldest first, whenever a slot frees up
+  useEffect(() => {
+    // A started job may still read as queued until its first update renders
+    const active = jobs.filter(
+      (job) =>
+        job.state === "processing" ||
+        job.state === "uploading" ||
+        (job.state === "queued" && controllers.current.has(job.id))
+    ).length
+    jobs
+      .filter((job) => job.state === "queued" && !controllers.current.has(job.id))
+      .slice(0, Math.max(0, concurrency - active))
+      .forEach(start)
+  }, [jobs, concurrency, start])
+
+  // Stop uploads and verification polling when the page unmounts
+  useEffect(() => {
+    const running = controllers.current
+    return () => running.forEach((controller) => controller.abort())
+  }, [])
+
+  const enqueue = useCallback((input: DeployJobInput) => {
+    setJobs((current) => [...current, { ...emptyJob(), id: crypto.randomUUID(), input }])
+  }, [])
+
+  const cancel = useCallback(
+    (id: string) => {
+      const controller = controllers.current.get(id)
+      controller?.abort(new Error("Cancelled"))
+      controllers.current.delete(id)
+      // A confirming job is already uploaded, so cancelling it only stops waiting for the chain
+      updateJob(id, (job) =>
+        job.state === "confirming" ? { state: "done", progress: null } : { state: "failed", progress: null, error: "Cancelled" }
+      )
+    },
+    [updateJob]
+  )
+
+  const retry = useCallback(
+    (id: string) => {
+      updateJob(id, emptyJob())
+    },
+    [updateJob]
+  )
+
+  const clearFinished = useCallback(() => {
+    setJobs((current) => current.filter((job) => job.state !== "done" && job.state !== "failed"))
+  }, [])
+
+  return { jobs, enqueue, cancel, retry, clearFinished }
+}
+
+function emptyJob(): Omit<DeployJob, "id" | "input"> {
+  return {
+    state: "queued",
+    progress: null,
+    fileSize: null,
+    costEstimate: null,
+    attempts: [],
+    result: null,
+    linkStatuses: {},
+    receiptFields: null,
+    warnings: [],
+    error: null,
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Client for the app's own API routes, turning their error responses back into PermawayErrors
+ */
+import { BackendStatusError, deserializeError, NetworkError, type SerializedPermawayError } from "./errors"
+
+/**
+ * Posts to an API route. onError receives the whole body of an error response, for routes that send more than the error.
+ */
+export async function callApi<T>(
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+  onError?: (payload: Record<string, unknown>) => void
+): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+  } catch (error) {
+    throw new NetworkError(path, error)
+  }
+
+  if (response.ok) {
+    return response.json()
+  }
+
+  const payload: { error?: Partial<SerializedPermawayError> } | null = await response.json().catch(() => null)
+  if (payload) {
+    onError?.(payload)
+  }
+  if (payload?.error?.code) {
+    throw deserializeError(payload.error as SerializedPermawayError)
+  }
+  throw new BackendStatusError("The PermaWay server", response.status, payload?.error?.message)
+}
@@ -1,7 +1,21 @@
-import { ANT, ArweaveSigner, IO } from '@ar.io/sdk'
+import { ANT, ArconnectSigner, ArweaveSigner, IO } from '@ar.io/sdk'
+import { gatewayLinks } from './arweave'
+import {
+  isLocalGateway,
+  LOCAL_ANT_PROCESS_ID,
+  LOCAL_ARNS_NAME,
+  postLocalTransaction
+} from './local-gateway'
+import { getSigningWallet } from './signer'
 
 // Wallet connection utilities
 export async function connectWallet(): Promise<string> {
+  // A loaded keyfile, or local mode's throwaway wallet, signs instead of ArConnect
+  const keyfile = await getSigningWallet()
+  if (keyfile) {
+    return keyfile.address
+  }
+
   try {
     // Check if ArConnect is available
     if (typeof window !== 'undefined' && (window as any).arweaveWallet) {
@@ -22,6 +36,11 @@ export async function connectWallet(): Promise<string> {
 
 export async function getWalletAddress(): Promise<string | null> {
   try {
+    const keyfile = await getSigningWallet()
+    if (keyfile) {
+      return keyfile.address
+    }
+
     if (typeof window !== 'undefined' && (window as any).arweaveWallet) {
       const address = await (window as any).arweaveWallet.getActiveAddress()
       return address
@@ -40,6 +59,11 @@ export interface ArnsName {
 }
 
 export async function getArnsNames(walletAddress: string): Promise<ArnsName[]> {
+  // The local gateway has no ARNS registry, so offer a single stand-in name
+  if (isLocalGateway()) {
+    return [{ name: LOCAL_ARNS_NAME, processId: LOCAL_ANT_PROCESS_ID, undername: '@' }]
+  }
+
   try {
     console.log('Fetching ARNS names for address:', walletAddress)
     
@@ -180,13 +204,20 @@ export async function migrateToArns(
     console.log('To ANT process:', processId)
     console.log('With undername:', undername)
     
-    // Check if ArConnect is available
-    if (typeof window === 'undefined' || !(window as any).arweaveWallet) {
-      throw new Error('ArConnect wallet not found')
+    if (isLocalGateway()) {
+      return await setLocalRecord(processId, undername, transactionId, arweaveUrl)
     }
     
-    // Create signer using ArConnect
-    const signer = new ArweaveSigner((window as any).arweaveWallet)
+    // ArweaveSigner needs the key itself, so ArConnect gets its own signer
+    const keyfile = await getSigningWallet()
+    let signer
+    if (keyfile) {
+      signer = new ArweaveSigner(keyfile.jwk)
+    } else if (typeof window !== 'undefined' && (window as any).arweaveWallet) {
+      signer = new ArconnectSigner((window as any).arweaveWallet)
+    } else {
+      throw new Error('ArConnect wallet not found. Load a keyfile or install the ArConnect extension.')
+    }
     
     // Initialize ANT
     const ant = ANT.init({ processId, signer })
@@ -241,6 +272,33 @@ export async function migrateToArns(
   }
 }
 
+// Records the undername update as a tagged transaction on the local gateway, mirroring ANT.setRecord
+async function setLocalRecord(
+  processId: string,
+  undername: string,
+  transactionId: string,
+  arweaveUrl: string
+): Promise<{ arnsUrl: string; transactionId: string }> {
+  const record = JSON.stringify({ undername, transactionId, ttlSeconds: 3600 })
+  const recordId = await postLocalTransaction(record, [
+    { name: 'Content-Type', value: 'application/json' },
+    { name: 'App-Name', value: 'ARNS-Migration-Tool' },
+    { name: 'Action', value: 'Set-Record' },
+    { name: 'Process-Id', value: processId },
+    { name: 'Sub-Domain', value: undername },
+    { name: 'Transaction-Id', value: transactionId },
+    { name: 'TTL-Seconds', value: '3600' },
+    { name: 'Migration-Source', value: arweaveUrl },
+    { name: 'Timestamp', value: new Date().toISOString() }
+  ])
+
+  // Nothing resolves ARNS names locally, so point straight at the content
+  return {
+    arnsUrl: gatewayLinks(transactionId)[0],
+    transactionId: recordId
+  }
+}
+
 // Utility function to validate Arweave transaction ID
 export function isValidArweaveId(id: string): boolean {
   return /^[a-zA-Z0-9_-]{43}$/.test(id)
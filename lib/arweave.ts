@@ -0,0 +1,98 @@
+/**
+ * Shared Arweave client and gateway link helpers
+ */
+import Arweave from "arweave"
+import { ARWEAVE_GATEWAY } from "./config"
+import { fetchChecked } from "./http"
+import type { CostEstimate, DeployStatus } from "./providers/types"
+
+export function getArweaveClient(): Arweave {
+  const url = new URL(ARWEAVE_GATEWAY)
+  const protocol = url.protocol.replace(":", "")
+
+  return Arweave.init({
+    host: url.hostname,
+    port: url.port ? Number(url.port) : protocol === "https" ? 443 : 80,
+    protocol,
+  })
+}
+
+// Links to a transaction on the configured gateway, including the sandboxed
+// subdomain form that ARNS migration expects
+export function gatewayLinks(transactionId: string): string[] {
+  const url = new URL(ARWEAVE_GATEWAY)
+  const links = [`${ARWEAVE_GATEWAY}/${transactionId}`]
+
+  try {
+    links.push(`${url.protocol}//${sandboxSubdomain(transactionId)}.${url.host}/${transactionId}`)
+  } catch (error) {
+    console.warn("Could not derive sandbox subdomain:", error)
+  }
+
+  return links
+}
+
+/**
+ * Estimates the cost of storing the given number of bytes in a layer 1 transaction
+ */
+export async function getGatewayPrice(bytes: number): Promise<CostEstimate> {
+  const response = await fetchChecked(`${ARWEAVE_GATEWAY}/price/${bytes}`, {}, "The Arweave gateway")
+
+  const winston = (await response.text()).trim()
+  return {
+    amount: winston,
+    unit: "winston",
+    formatted: `${getArweaveClient().ar.winstonToAr(winston)} AR`,
+  }
+}
+
+/**
+ * Looks up a transaction's confirmation state on the gateway
+ */
+export async function getTransactionStatus(transactionId: string): Promise<DeployStatus> {
+  const response = await fetch(`${ARWEAVE_GATEWAY}/tx/${transactionId}/status`)
+
+  if (response.status === 404) {
+    return { state: "not_found" }
+  }
+
+  // 202 means the gateway knows the transaction but it is not mined yet
+  if (response.status === 202) {
+    return { state: "pending" }
+  }
+
+  if (!response.ok) {
+    throw new Error(`Status lookup failed with status: ${response.status}`)
+  }
+
+  const data: { number_of_confirmations: number } = await response.json()
+  return { state: "confirmed", confirmations: data.number_of_confirmations }
+}
+
+// Gateways serve each transaction from a subdomain made of the base32-encoded ID
+function sandboxSubdomain(transactionId: string): string {
+  const bytes = Arweave.utils.b64UrlToBuffer(transactionId)
+  if (bytes.length !== 32) {
+    throw new Error(`Invalid transaction ID: ${transactionId}`)
+  }
+
+  const alphabet = "abcdefghijklmnopqrstuvwxyz234567"
+  let bits = 0
+  let value = 0
+  let output = ""
+
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      output += alphabet[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += alphabet[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
@@ -0,0 +1,20 @@
+/**
+ * Base64 helpers that work the same in the browser and on the server
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = ""
+  // Chunked, since spreading a large array into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ""))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
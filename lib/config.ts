@@ -0,0 +1,61 @@
+/**
+ * Deployment configuration, read from NEXT_PUBLIC_* environment variables with sensible defaults
+ */
+
+// arlocal-compatible gateway for offline development. When set, every deploy and ARNS update goes
+// there with a throwaway wallet instead of mainnet, e.g. NEXT_PUBLIC_LOCAL_GATEWAY=http://localhost:1984
+export const LOCAL_GATEWAY = process.env.NEXT_PUBLIC_LOCAL_GATEWAY?.replace(/\/$/, "") || null
+
+// Gateway used to create, post and link to Arweave transactions
+export const ARWEAVE_GATEWAY = (
+  LOCAL_GATEWAY ||
+  process.env.NEXT_PUBLIC_ARWEAVE_GATEWAY ||
+  "https://arweave.net"
+).replace(/\/$/, "")
+
+// Provider IDs to fail over to, in order, once the selected provider keeps failing. Paid ones need the user's approval first
+export const DEPLOY_FAILOVER_PROVIDERS = parseList(process.env.NEXT_PUBLIC_DEPLOY_FAILOVER_PROVIDERS || "")
+
+// Deploys processed and uploaded at the same time; the rest wait in the queue
+export const DEPLOY_CONCURRENCY = parseOptionalNumber(process.env.NEXT_PUBLIC_DEPLOY_CONCURRENCY) ?? 2
+
+// Tries per endpoint before failing over to the next
+export const DEPLOY_MAX_ATTEMPTS = parseOptionalNumber(process.env.NEXT_PUBLIC_DEPLOY_MAX_ATTEMPTS) ?? 3
+
+// ANS-104 bundler exposing a Turbo-compatible POST /tx endpoint
+export const BUNDLER_URL = (process.env.NEXT_PUBLIC_BUNDLER_URL || "https://upload.ardrive.io/v1").replace(/\/$/, "")
+
+// Payment service quoting bundler upload prices in winc credits
+export const BUNDLER_PAYMENT_URL = (
+  process.env.NEXT_PUBLIC_BUNDLER_PAYMENT_URL || "https://payment.ardrive.io/v1"
+).replace(/\/$/, "")
+
+// Largest entry document we deploy as one transaction, in KB. Bigger pages have their inlined assets split out.
+export const HTML_SIZE_BUDGET_KB = parseOptionalNumber(process.env.NEXT_PUBLIC_HTML_SIZE_BUDGET_KB) ?? 3000
+
+// Largest image, font or media file inlined into a single-page deploy as a data URI, in KB. Bigger files keep their reference.
+export const INLINE_ASSET_MAX_KB = parseOptionalNumber(process.env.NEXT_PUBLIC_INLINE_ASSET_MAX_KB) ?? 512
+
+// Most a zip archive may expand to as it's read, in MB, so a zip bomb fails early instead of exhausting memory
+export const ZIP_MAX_EXTRACTED_MB = parseOptionalNumber(process.env.NEXT_PUBLIC_ZIP_MAX_EXTRACTED_MB) ?? 200
+
+// Wallets the deploy backend uploads with, which own the transactions of backend deploys. Comma-separate to add more
+export const DEPLOY_BACKEND_ADDRESSES = parseList(process.env.NEXT_PUBLIC_DEPLOY_BACKEND_ADDRESSES || "")
+
+// Ask for confirmation before deploys estimated above these amounts; unset disables the check
+export const COST_CONFIRM_THRESHOLD_AR = parseOptionalNumber(process.env.NEXT_PUBLIC_COST_CONFIRM_THRESHOLD_AR)
+export const COST_CONFIRM_THRESHOLD_CREDITS = parseOptionalNumber(
+  process.env.NEXT_PUBLIC_COST_CONFIRM_THRESHOLD_CREDITS
+)
+
+export function parseOptionalNumber(value: string | undefined): number | null {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) ? parsed : null
+}
+
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim().replace(/\/$/, ""))
+    .filter(Boolean)
+}
@@ -0,0 +1,45 @@
+/**
+ * Finds earlier uploads of identical content so redeploys can reuse them instead of paying again
+ */
+import { queryGateway, type GraphqlTransaction } from "./graphql"
+import { APP_NAME } from "./tags"
+
+// Set on single-page and single-file uploads by providers that apply tags. Split pages and multi-file sites
+// are deployed behind a manifest without one, so they can't be found again this way.
+export const CONTENT_HASH_TAG = "Content-SHA256"
+
+const EXISTING_DEPLOYMENT_QUERY = `
+  query ExistingDeployment($tags: [TagFilter!], $owners: [String!]) {
+    transactions(tags: $tags, owners: $owners, first: 1, sort: HEIGHT_DESC) {
+      edges {
+        node {
+          id
+          owner { address }
+          tags { name value }
+          data { size }
+          block { height timestamp }
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Looks up a deployment with the same content hash, from the given wallet when known or else from this app
+ */
+export async function findExistingDeployment(
+  contentHash: string,
+  ownerAddress?: string | null
+): Promise<GraphqlTransaction | null> {
+  const tags = [{ name: CONTENT_HASH_TAG, values: [contentHash] }]
+  if (!ownerAddress) {
+    tags.push({ name: "App-Name", values: [APP_NAME] })
+  }
+
+  const data = await queryGateway<{ transactions: { edges: { node: GraphqlTransaction }[] } }>(
+    EXISTING_DEPLOYMENT_QUERY,
+    { tags, owners: ownerAddress ? [ownerAddress] : undefined }
+  )
+
+  return data.transactions.edges[0]?.node ?? null
+}
@@ -1,27 +1,378 @@
-/**
- * Deploys HTML content to Arweave using the provided API
- */
-export async function deployToArweave(html: string): Promise<{
+import {
+  COST_CONFIRM_THRESHOLD_AR,
+  COST_CONFIRM_THRESHOLD_CREDITS,
+  DEPLOY_FAILOVER_PROVIDERS,
+  DEPLOY_MAX_ATTEMPTS,
+} from "./config"
+import { CONTENT_HASH_TAG } from "./dedupe"
+import { canFailOver, classifyError, isTransientError, NetworkError, ParseError } from "./errors"
+import { sha256Hex } from "./hash"
+import {
+  DEFAULT_PROVIDER_ID,
+  getDeployProvider,
+  listDeployProviders,
+  type CostEstimate,
+  type DeployProvider,
+  type EndpointAttempt,
+  type Tag,
+  type UploadOptions,
+  type UploadResult,
+} from "./providers"
+import { isLocalGateway } from "./local-gateway"
+import { localProvider } from "./providers/local"
+import { GIT_COMMIT_TAG, GIT_REF_TAG, GIT_REPO_TAG } from "./provenance"
+import { AttemptTimeoutError, withRetry } from "./retry"
+import { resolveTags, withContentType } from "./tags"
+import { PREVIOUS_VERSION_TAG, VERSION_TAG } from "./versions"
+import type { SiteFile } from "./zip-processing"
+
+export interface DeployResult {
   success: boolean
   links: string[]
-}> {
+  // Transaction or data item ID, when the provider reports one
+  id?: string
+  // Provider that completed the upload, which differs from the selected one after a failover
+  providerId: string
+  // Every transaction created, ending with the one the links serve
+  transactionIds: string[]
+  // Tags on the transaction the links serve; empty when the provider doesn't apply tags
+  tags: Tag[]
+}
+
+export interface DeployOptions extends Omit<UploadOptions, "endpoint"> {
+  // User-defined tags; blank Title and Description fall back to the page's own
+  tags?: Tag[]
+  // Called after every upload attempt, successful or not
+  onAttempt?: (attempt: DeployAttempt) => void
+  // Asked before failing over to a provider that charges for the upload, since the user only agreed to the
+  // selected provider's cost. Without it, failover only moves on to free providers.
+  onFailover?: (failover: { provider: DeployProvider; estimate: CostEstimate }) => Promise<boolean>
+}
+
+export interface DeployAttempt {
+  providerId: string
+  providerLabel: string
+  endpoint?: string
+  attempt: number
+  durationMs: number
+  // Absent when the attempt succeeded
+  error?: string
+  // Delay before retrying the same target, when it will be retried
+  retryInMs?: number
+}
+
+// A provider paired with one of its endpoints; failover walks these in order
+interface DeployTarget {
+  provider: DeployProvider
+  endpoint?: string
+}
+
+// Tags describing the whole site, which belong on the manifest rather than each file
+const SITE_ONLY_TAGS = [
+  "Title",
+  "Description",
+  GIT_REPO_TAG,
+  GIT_REF_TAG,
+  GIT_COMMIT_TAG,
+  PREVIOUS_VERSION_TAG,
+  VERSION_TAG,
+].map((name) => name.toLowerCase())
+
+/**
+ * Deploys HTML content to Arweave using the selected deploy provider, failing over to the configured alternatives
+ */
+export async function deployToArweave(
+  html: string,
+  providerId: string = DEFAULT_PROVIDER_ID,
+  options: DeployOptions = {}
+): Promise<DeployResult> {
+  const provider = resolveProvider(providerId)
+
+  try {
+    const tags = [...resolveTags(options.tags ?? [], html), { name: CONTENT_HASH_TAG, value: await sha256Hex(html) }]
+    const { target, result } = await uploadWithFailover(deployTargets(provider, true), html, tags, options)
+    return {
+      success: true,
+      ...result,
+      providerId: target.provider.id,
+      transactionIds: result.id ? [result.id] : [],
+      tags: target.provider.supportsTags ? tags : [],
+    }
+  } catch (error) {
+    console.error(`Error deploying to Arweave with ${provider.label}:`, error)
+    throw classifyError(error)
+  }
+}
+
+/**
+ * Deploys a file as-is, tagged with its own Content-Type, failing over only to providers that accept arbitrary payloads
+ */
+export async function deployFile(
+  file: SiteFile,
+  providerId: string = DEFAULT_PROVIDER_ID,
+  options: DeployOptions = {}
+): Promise<DeployResult> {
+  const provider = resolveProvider(providerId)
+  if (!provider.supportsMultiFile) {
+    throw new Error(`${provider.label} can only deploy web pages.`)
+  }
+
+  try {
+    const tags = [
+      ...withContentType(resolveTags(options.tags ?? []), file.contentType),
+      { name: CONTENT_HASH_TAG, value: await sha256Hex(file.data) },
+    ]
+    const targets = deployTargets(provider, true).filter((target) => target.provider.supportsMultiFile)
+    const { target, result } = await uploadWithFailover(targets, file.data, tags, options)
+    return {
+      success: true,
+      ...result,
+      providerId: target.provider.id,
+      transactionIds: result.id ? [result.id] : [],
+      tags: target.provider.supportsTags ? tags : [],
+    }
+  } catch (error) {
+    console.error(`Error deploying ${file.path} with ${provider.label}:`, error)
+    throw classifyError(error)
+  }
+}
+
+/**
+ * Estimates what storing the given number of bytes will cost with the selected provider
+ */
+export async function estimateDeployCost(bytes: number, providerId: string): Promise<CostEstimate> {
+  return resolveProvider(providerId).estimate(bytes)
+}
+
+/**
+ * Whether an estimate is above the configured confirmation threshold for its unit
+ */
+export function exceedsCostThreshold(estimate: CostEstimate): boolean {
+  if (estimate.unit === "winston" && COST_CONFIRM_THRESHOLD_AR !== null) {
+    return Number(estimate.amount) / 1e12 > COST_CONFIRM_THRESHOLD_AR
+  }
+
+  if (estimate.unit === "winc" && COST_CONFIRM_THRESHOLD_CREDITS !== null) {
+    return Number(estimate.amount) / 1e12 > COST_CONFIRM_THRESHOLD_CREDITS
+  }
+
+  return false
+}
+
+/**
+ * Deploys each file as its own transaction and publishes an arweave/paths manifest linking them
+ */
+export async function deploySiteFiles(
+  files: SiteFile[],
+  providerId: string,
+  options: DeployOptions = {}
+): Promise<DeployResult> {
+  const provider = resolveProvider(providerId)
+  if (!provider.supportsMultiFile) {
+    throw new Error(`${provider.label} does not support multi-file deployments.`)
+  }
+  // An empty archive or repository would otherwise fail below with no hint of why
+  if (files.length === 0) {
+    throw new ParseError("the site", "It contains no files to deploy.")
+  }
+
   try {
-    const response = await fetch("https://aoile-backend.onrender.com/deploy", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ html }),
+    const indexPath = findIndexPath(files)
+    const indexHtml = new TextDecoder().decode(files.find((file) => file.path === indexPath)!.data)
+    const siteTags = resolveTags(options.tags ?? [], indexHtml)
+    const fileTags = siteTags.filter((tag) => !SITE_ONLY_TAGS.includes(tag.name.toLowerCase()))
+
+    const paths: Record<string, { id: string }> = {}
+    const totalBytes = files.reduce((total, file) => total + file.data.byteLength, 0)
+    let uploadedBytes = 0
+
+    // Every file must come from the same provider, so only its own endpoints are failed over
+    const targets = deployTargets(provider, false)
+
+    // Upload sequentially so the wallet prompts for one signature at a time
+    for (const file of files) {
+      const { result } = await uploadWithFailover(targets, file.data, withContentType(fileTags, file.contentType), {
+        ...options,
+        onProgress: (percent) =>
+          options.onProgress?.(((uploadedBytes + (file.data.byteLength * percent) / 100) / totalBytes) * 100),
+      })
+      const { id } = result
+      if (!id) {
+        throw new Error(`No transaction ID returned for ${file.path}`)
+      }
+      paths[file.path] = { id }
+      uploadedBytes += file.data.byteLength
+    }
+
+    const manifest = {
+      manifest: "arweave/paths",
+      version: "0.2.0",
+      index: { path: indexPath },
+      paths,
+    }
+
+    const manifestTags = withContentType(siteTags, "application/x.arweave-manifest+json")
+    const { result } = await uploadWithFailover(targets, JSON.stringify(manifest), manifestTags, {
+      signal: options.signal,
+      onAttempt: options.onAttempt,
     })
 
-    if (!response.ok) {
-      throw new Error(`Deployment failed with status: ${response.status}`)
+    return {
+      success: true,
+      ...result,
+      providerId: provider.id,
+      transactionIds: [...Object.values(paths).map((path) => path.id), ...(result.id ? [result.id] : [])],
+      tags: manifestTags,
     }
+  } catch (error) {
+    console.error(`Error deploying site files with ${provider.label}:`, error)
+    throw classifyError(error)
+  }
+}
+
+/**
+ * Tries each target in turn, retrying transient failures with backoff before moving on to the next
+ */
+async function uploadWithFailover(
+  targets: DeployTarget[],
+  data: string | Uint8Array,
+  tags: Tag[],
+  options: DeployOptions
+): Promise<{ target: DeployTarget; result: UploadResult }> {
+  let lastError: Error | undefined
+  // The first provider is the one the user chose and already agreed to pay for
+  const [selected] = targets.map((target) => target.provider)
+  const approved = new Set(selected ? [selected] : [])
+  const declined = new Set<DeployProvider>()
+
+  for (const target of targets) {
+    const { provider, endpoint } = target
+
+    if (!approved.has(provider)) {
+      if (declined.has(provider) || !(await approveFailover(provider, selected, data, options))) {
+        declined.add(provider)
+        continue
+      }
+      approved.add(provider)
+    }
+
+    const report = (attempt: number, endpointAttempt: EndpointAttempt) =>
+      options.onAttempt?.({ providerId: provider.id, providerLabel: provider.label, attempt, ...endpointAttempt })
+
+    try {
+      let call = 0
+      const result = await withRetry(
+        (signal) => {
+          const attempt = ++call
+          return provider.upload(data, tags, {
+            onProgress: options.onProgress,
+            signal,
+            endpoint,
+            onEndpointAttempt: (endpointAttempt) => report(attempt, endpointAttempt),
+          })
+        },
+        {
+          attempts: DEPLOY_MAX_ATTEMPTS,
+          timeoutMs: provider.attemptTimeoutMs,
+          signal: options.signal,
+          shouldRetry: (error) => isTransientError(toDeployError(error, target)),
+          onAttempt: ({ attempt, durationMs, error, retryInMs }) =>
+            options.onAttempt?.({
+              providerId: provider.id,
+              providerLabel: provider.label,
+              endpoint,
+              attempt,
+              durationMs,
+              error: error === undefined ? undefined : toDeployError(error, target).message,
+              retryInMs,
+            }),
+        }
+      )
+      return { target, result }
+    } catch (error) {
+      lastError = toDeployError(error, target)
+      // Rejected signatures, missing funds and bad input fail the same way everywhere
+      if (options.signal?.aborted || !canFailOver(lastError)) {
+        throw lastError
+      }
+      console.warn(`${provider.label}${endpoint ? ` (${endpoint})` : ""} failed, trying the next target:`, lastError)
+    }
+  }
 
-    const data = await response.json()
-    return data
+  throw lastError ?? new Error("No deploy targets are configured")
+}
+
+// Failing over to a provider that charges needs the user's go-ahead at that provider's own estimate.
+// A provider that drops tags is never a fallback for one that keeps them, since versions and encryption rely on them.
+async function approveFailover(
+  provider: DeployProvider,
+  selected: DeployProvider,
+  data: string | Uint8Array,
+  options: DeployOptions
+): Promise<boolean> {
+  if (selected.supportsTags && !provider.supportsTags) {
+    console.warn(`Skipping failover to ${provider.label}: it doesn't apply tags`)
+    return false
+  }
+
+  let estimate: CostEstimate
+  try {
+    estimate = await provider.estimate(typeof data === "string" ? new Blob([data]).size : data.byteLength)
   } catch (error) {
-    console.error("Error deploying to Arweave:", error)
-    throw new Error("Failed to deploy to Arweave. Please try again.")
+    console.warn(`Skipping failover to ${provider.label}: its cost could not be estimated`, error)
+    return false
+  }
+
+  if (estimate.unit === "free") {
+    return true
+  }
+
+  const confirmed = (await options.onFailover?.({ provider, estimate })) ?? false
+  if (!confirmed) {
+    console.warn(`Skipping failover to ${provider.label}: its cost of ${estimate.formatted} was not approved`)
+  }
+  return confirmed
+}
+
+// In local mode every deploy goes to the local gateway, whatever the caller selected
+function resolveProvider(providerId: string): DeployProvider {
+  return isLocalGateway() ? localProvider : getDeployProvider(providerId)
+}
+
+function deployTargets(selected: DeployProvider, allowProviderFailover: boolean): DeployTarget[] {
+  const providers = [selected]
+
+  if (allowProviderFailover && !isLocalGateway()) {
+    for (const id of DEPLOY_FAILOVER_PROVIDERS) {
+      const provider = listDeployProviders().find((candidate) => candidate.id === id)
+      if (!provider) {
+        console.warn(`Ignoring unknown failover provider: ${id}`)
+      } else if (!providers.includes(provider)) {
+        providers.push(provider)
+      }
+    }
   }
+
+  return providers.flatMap((provider): DeployTarget[] =>
+    provider.endpoints?.length
+      ? provider.endpoints.map((endpoint) => ({ provider, endpoint }))
+      : [{ provider, endpoint: undefined }]
+  )
+}
+
+function toDeployError(error: unknown, { provider, endpoint }: DeployTarget): Error {
+  if (error instanceof AttemptTimeoutError) {
+    return new NetworkError(endpoint ?? provider.label, error)
+  }
+  return classifyError(error, endpoint)
+}
+
+export function findIndexPath(files: SiteFile[]): string {
+  const paths = files.map((file) => file.path)
+  return (
+    paths.find((path) => path === "index.html") ||
+    paths.find((path) => path === "index.htm") ||
+    paths.find((path) => /\.html?$/i.test(path)) ||
+    paths[0]
+  )
 }
@@ -0,0 +1,133 @@
+/**
+ * Passphrase encryption for deployments that shouldn't be publicly readable.
+ * The page is encrypted in the browser and wrapped in an unlock page that decrypts it with the same passphrase.
+ */
+import type { Tag } from "./providers"
+import { encodeBase64 } from "./base64"
+
+// Recorded in the payload and tags, so pages encrypted today still unlock if the default changes
+const PBKDF2_ITERATIONS = 250_000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+interface EncryptedPayload {
+  ciphertext: string
+  salt: string
+  iv: string
+  iterations: number
+}
+
+/**
+ * Encrypts the page with AES-256-GCM under a PBKDF2-SHA256 key and returns the self-contained unlock page
+ */
+export async function encryptHtml(html: string, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(html))
+
+  return buildUnlockPage({
+    ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+    salt: encodeBase64(salt),
+    iv: encodeBase64(iv),
+    iterations: PBKDF2_ITERATIONS,
+  })
+}
+
+/**
+ * Tags describing the scheme, so the deployment can be recognised as encrypted without opening it
+ */
+export function createEncryptionTags(): Tag[] {
+  return [
+    { name: "Encrypted", value: "true" },
+    { name: "Encryption-Algorithm", value: "AES-256-GCM" },
+    { name: "Key-Derivation", value: "PBKDF2-SHA256" },
+    { name: "Key-Derivation-Iterations", value: String(PBKDF2_ITERATIONS) },
+  ]
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ])
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+// The unlock page repeats deriveKey in plain script, since it has to work with nothing but the gateway
+function buildUnlockPage(payload: EncryptedPayload): string {
+  // Base64 and numbers only, but escape "<" anyway so the JSON can never close the script tag
+  const data = JSON.stringify(payload).replace(/</g, "\\u003c")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Protected page</title>
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,sans-serif;background:#0a0a0a;color:#fafafa}
+form{display:flex;flex-direction:column;gap:12px;width:min(320px,90vw)}
+input,button{padding:10px;border-radius:6px;border:1px solid #333;font-size:16px}
+input{background:#171717;color:inherit}
+button{background:#fafafa;color:#0a0a0a;cursor:pointer}
+button:disabled{opacity:.6;cursor:wait}
+p{margin:0;font-size:14px;color:#a3a3a3}
+#error{color:#f87171;min-height:1em}
+</style>
+</head>
+<body>
+<form id="unlock">
+<p>This page is encrypted. Enter the passphrase to view it.</p>
+<input id="passphrase" type="password" autocomplete="current-password" autofocus required>
+<button id="submit" type="submit">Unlock</button>
+<p id="error"></p>
+</form>
+<script>
+(function () {
+  var payload = ${data};
+  function bytes(base64) {
+    return Uint8Array.from(atob(base64), function (c) { return c.charCodeAt(0); });
+  }
+  document.getElementById("unlock").addEventListener("submit", function (event) {
+    event.preventDefault();
+    var button = document.getElementById("submit");
+    var error = document.getElementById("error");
+    button.disabled = true;
+    error.textContent = "";
+    var passphrase = new TextEncoder().encode(document.getElementById("passphrase").value);
+    crypto.subtle.importKey("raw", passphrase, "PBKDF2", false, ["deriveKey"])
+      .then(function (material) {
+        return crypto.subtle.deriveKey(
+          { name: "PBKDF2", hash: "SHA-256", salt: bytes(payload.salt), iterations: payload.iterations },
+          material,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["decrypt"]
+        );
+      })
+      .then(function (key) {
+        return crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes(payload.iv) }, key, bytes(payload.ciphertext));
+      })
+      .then(function (plaintext) {
+        document.open();
+        document.write(new TextDecoder().decode(plaintext));
+        document.close();
+      })
+      .catch(function () {
+        error.textContent = "Incorrect passphrase.";
+        button.disabled = false;
+      });
+  });
+})();
+</script>
+</body>
+</html>`
+}
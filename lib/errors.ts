@@ -0,0 +1,181 @@
+/**
+ * Typed errors for every failure in the deploy pipeline, each carrying its cause, details and a suggested fix
+ */
+export type PermawayErrorCode =
+  | "SIZE_LIMIT"
+  | "NETWORK"
+  | "PROXY"
+  | "BACKEND_STATUS"
+  | "PARSE_FAILURE"
+  | "SIGNATURE_REJECTED"
+  | "INSUFFICIENT_FUNDS"
+
+export class PermawayError extends Error {
+  readonly code: PermawayErrorCode
+  readonly details: Record<string, string | number>
+  readonly suggestion: string
+
+  constructor(
+    code: PermawayErrorCode,
+    message: string,
+    options: { details?: Record<string, string | number>; suggestion: string; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause })
+    this.name = "PermawayError"
+    this.code = code
+    this.details = options.details ?? {}
+    this.suggestion = options.suggestion
+  }
+}
+
+export class SizeLimitError extends PermawayError {
+  constructor(sizeKb: number, limitKb: number) {
+    // Limits derived from byte counts aren't round, so trim them like the size
+    const limit = `${Number(limitKb.toFixed(2))}KB`
+    super("SIZE_LIMIT", `HTML file size (${sizeKb.toFixed(2)}KB) exceeds the ${limit} limit.`, {
+      details: { size: `${sizeKb.toFixed(2)}KB`, limit },
+      suggestion:
+        "Choose a deploy target that supports multi-file sites so large assets can be split out, or raise the size budget.",
+    })
+    this.name = "SizeLimitError"
+  }
+}
+
+export class NetworkError extends PermawayError {
+  constructor(url: string, cause?: unknown) {
+    super("NETWORK", `Could not reach ${hostOf(url)}.`, {
+      details: { url, reason: describeCause(cause) },
+      suggestion: "Check your internet connection and that the service is up, then try again.",
+      cause,
+    })
+    this.name = "NetworkError"
+  }
+}
+
+export class ProxyError extends PermawayError {
+  constructor(target: string, attempts: number, cause?: unknown) {
+    super("PROXY", `All ${attempts} download routes for ${target} failed.`, {
+      details: { target, attempts, reason: describeCause(cause) },
+      suggestion: "The rendering service may be rate limited or down. Wait a minute and retry, or upload the files directly.",
+      cause,
+    })
+    this.name = "ProxyError"
+  }
+}
+
+export class BackendStatusError extends PermawayError {
+  constructor(service: string, status: number, body?: string) {
+    super("BACKEND_STATUS", `${service} responded with status ${status}.`, {
+      details: { service, status, ...(body ? { response: body.slice(0, 200) } : {}) },
+      suggestion:
+        status >= 500
+          ? "The service is having trouble or is still starting up. Retry in a minute or choose another deploy target."
+          : "The request was rejected. Check the content and settings, or choose another deploy target.",
+    })
+    this.name = "BackendStatusError"
+  }
+}
+
+export class ParseError extends PermawayError {
+  constructor(source: string, reason: string, cause?: unknown) {
+    super("PARSE_FAILURE", `Could not process ${source}: ${reason}`, {
+      details: { source, reason: describeCause(cause) || reason },
+      suggestion: "Make sure the input is a valid, uncorrupted website with an HTML entry page.",
+      cause,
+    })
+    this.name = "ParseError"
+  }
+}
+
+export class SignatureRejectedError extends PermawayError {
+  constructor(cause?: unknown) {
+    super("SIGNATURE_REJECTED", "The wallet did not sign the upload.", {
+      details: { reason: describeCause(cause) },
+      suggestion: "Approve the signature request in your wallet, or choose the hosted backend to deploy without signing.",
+      cause,
+    })
+    this.name = "SignatureRejectedError"
+  }
+}
+
+export class InsufficientFundsError extends PermawayError {
+  constructor(service: string, required?: string, available?: string) {
+    super("INSUFFICIENT_FUNDS", `Your wallet cannot cover the cost of this upload on ${service}.`, {
+      details: { service, ...(required ? { required } : {}), ...(available ? { available } : {}) },
+      suggestion: "Top up your wallet or bundler credits, or choose another deploy target.",
+    })
+    this.name = "InsufficientFundsError"
+  }
+}
+
+/**
+ * Turns fetch failures into PermawayErrors. Wallet rejections are only recognisable where the wallet is called,
+ * so those call sites throw SignatureRejectedError themselves.
+ */
+export function classifyError(error: unknown, url?: string): Error {
+  if (error instanceof PermawayError) {
+    return error
+  }
+
+  // fetch reports unreachable hosts and CORS failures as a bare TypeError
+  if (error instanceof TypeError && url) {
+    return new NetworkError(url, error)
+  }
+
+  return error instanceof Error ? error : new Error(describeCause(error) || "An unknown error occurred")
+}
+
+// Failures another attempt at the same target might get past. Checks codes rather than classes, since errors
+// from the API routes arrive as plain PermawayErrors.
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof PermawayError)) {
+    return false
+  }
+  if (error.code === "NETWORK") {
+    return true
+  }
+  if (error.code === "BACKEND_STATUS") {
+    const status = Number(error.details.status)
+    return status >= 500 || status === 408 || status === 429
+  }
+  return false
+}
+
+// Failures another target might get past
+export function canFailOver(error: unknown): boolean {
+  return error instanceof PermawayError && (error.code === "NETWORK" || error.code === "BACKEND_STATUS")
+}
+
+// Shape of a PermawayError as it crosses the API boundary
+export interface SerializedPermawayError {
+  code: PermawayErrorCode
+  message: string
+  details: Record<string, string | number>
+  suggestion: string
+}
+
+export function serializeError(error: PermawayError): SerializedPermawayError {
+  return { code: error.code, message: error.message, details: error.details, suggestion: error.suggestion }
+}
+
+/**
+ * Rebuilds an error sent by an API route. Subclasses are not restored, so check its code rather than its class.
+ */
+export function deserializeError(serialized: SerializedPermawayError): PermawayError {
+  return new PermawayError(serialized.code, serialized.message, {
+    details: serialized.details,
+    suggestion: serialized.suggestion,
+  })
+}
+
+function describeCause(cause: unknown): string {
+  return cause instanceof Error ? cause.message : cause ? String(cause) : ""
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
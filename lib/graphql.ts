@@ -0,0 +1,34 @@
+/**
+ * Minimal client for the gateway's GraphQL endpoint
+ */
+import { ARWEAVE_GATEWAY } from "./config"
+
+export interface GraphqlTransaction {
+  id: string
+  owner: { address: string }
+  tags: { name: string; value: string }[]
+  data: { size: string }
+  // Missing until the transaction is mined
+  block: { height: number; timestamp: number } | null
+}
+
+export async function queryGateway<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+  const response = await fetch(`${ARWEAVE_GATEWAY}/graphql`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query, variables }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`GraphQL query failed with status: ${response.status}`)
+  }
+
+  const result: { data?: T; errors?: { message: string }[] } = await response.json()
+  if (result.errors?.length || !result.data) {
+    throw new Error(`GraphQL query failed: ${result.errors?.map((error) => error.message).join(", ") || "no data"}`)
+  }
+
+  return result.data
+}
@@ -0,0 +1,11 @@
+/**
+ * Hex-encoded SHA-256 digest of text or binary content, via Web Crypto
+ */
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
@@ -0,0 +1,19 @@
+import { BackendStatusError, NetworkError } from "./errors"
+
+/**
+ * fetch that reports unreachable hosts as NetworkError and non-2xx responses as BackendStatusError
+ */
+export async function fetchChecked(url: string, init: RequestInit, service: string): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, init)
+  } catch (error) {
+    throw new NetworkError(url, error)
+  }
+
+  if (!response.ok) {
+    throw new BackendStatusError(service, response.status, await response.text().catch(() => ""))
+  }
+
+  return response
+}
@@ -0,0 +1,119 @@
+/**
+ * Maps file extensions to the Content-Type gateways should serve them with
+ */
+const MIME_TYPES: Record<string, string> = {
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  js: "application/javascript",
+  mjs: "application/javascript",
+  json: "application/json",
+  map: "application/json",
+  txt: "text/plain",
+  md: "text/markdown",
+  xml: "application/xml",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  pdf: "application/pdf",
+  wasm: "application/wasm",
+  csv: "text/csv",
+  zip: "application/zip",
+  gz: "application/gzip",
+}
+
+export function getContentType(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase() || ""
+  return MIME_TYPES[extension] || "application/octet-stream"
+}
+
+/**
+ * File extension for a Content-Type, for naming payloads that only come with a type
+ */
+export function getExtension(contentType: string): string {
+  const type = contentType.split(";")[0].trim().toLowerCase()
+  return Object.keys(MIME_TYPES).find((extension) => MIME_TYPES[extension] === type) || "bin"
+}
+
+// Leading bytes of binary formats; null matches any byte. Checked in order, so more specific signatures come first.
+const SIGNATURES: { contentType: string; offset?: number; bytes: (number | null)[] }[] = [
+  { contentType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { contentType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { contentType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { contentType: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { contentType: "audio/wav", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { contentType: "image/avif", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66] },
+  { contentType: "video/quicktime", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x71, 0x74, 0x20, 0x20] },
+  { contentType: "video/mp4", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { contentType: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { contentType: "audio/ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { contentType: "audio/flac", bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { contentType: "audio/mpeg", bytes: [0x49, 0x44, 0x33] },
+  { contentType: "audio/mpeg", bytes: [0xff, 0xfb] },
+  { contentType: "image/bmp", bytes: [0x42, 0x4d, null, null, null, null, 0x00, 0x00, 0x00, 0x00] },
+  { contentType: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { contentType: "font/woff", bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { contentType: "font/woff2", bytes: [0x77, 0x4f, 0x46, 0x32] },
+  { contentType: "font/ttf", bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+  { contentType: "font/otf", bytes: [0x4f, 0x54, 0x54, 0x4f] },
+  { contentType: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { contentType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { contentType: "application/gzip", bytes: [0x1f, 0x8b] },
+]
+
+/**
+ * Detects a file's Content-Type from its leading bytes, falling back to the extension for text formats,
+ * which have no magic bytes
+ */
+export function detectContentType(data: Uint8Array, path = ""): string {
+  const signature = SIGNATURES.find(({ offset = 0, bytes }) =>
+    bytes.every((byte, index) => byte === null || data[offset + index] === byte)
+  )
+  if (signature) {
+    return signature.contentType
+  }
+
+  let text = ""
+  try {
+    // Streaming, so a character cut off at the end of the sample isn't a decoding error
+    text = new TextDecoder("utf-8", { fatal: true }).decode(data.subarray(0, 4096), { stream: true })
+  } catch {
+    // Not UTF-8, so a binary format without a known signature
+  }
+  const start = text.replace(/^\uFEFF/, "").trimStart().slice(0, 512).toLowerCase()
+
+  if (/^<svg[\s>]/.test(start) || (start.startsWith("<?xml") && start.includes("<svg"))) {
+    return "image/svg+xml"
+  }
+  if (/^<(!doctype html|html[\s>])/.test(start)) {
+    return "text/html"
+  }
+
+  const byExtension = getContentType(path)
+  if (byExtension !== "application/octet-stream") {
+    return byExtension
+  }
+  if (start.startsWith("<?xml")) {
+    return "application/xml"
+  }
+  return text || data.length === 0 ? "text/plain" : "application/octet-stream"
+}
@@ -0,0 +1,117 @@
+/**
+ * Git provenance tags linking a deployment to the repository and commit it was built from
+ */
+import { queryGateway, type GraphqlTransaction } from "./graphql"
+import type { Tag } from "./providers"
+import { APP_NAME } from "./tags"
+
+export const GIT_REPO_TAG = "Git-Repo"
+export const GIT_REF_TAG = "Git-Ref"
+export const GIT_COMMIT_TAG = "Git-Commit"
+
+export interface GitProvenance {
+  // Normalized repository URL, e.g. "https://github.com/owner/repo"
+  repo: string
+  // Branch the commit was resolved from
+  ref: string
+  // Full 40-character commit SHA
+  commit: string
+}
+
+const DEPLOYMENTS_QUERY = `
+  query GitDeployments($tags: [TagFilter!], $after: String) {
+    transactions(tags: $tags, first: 100, after: $after, sort: HEIGHT_DESC) {
+      pageInfo { hasNextPage }
+      edges {
+        cursor
+        node {
+          id
+          owner { address }
+          tags { name value }
+          data { size }
+          block { height timestamp }
+        }
+      }
+    }
+  }
+`
+
+// Bounds how many pages a repository lookup walks through
+const MAX_PAGES = 10
+
+/**
+ * Canonical form of a GitHub repository URL, so tags written and searched for always match.
+ * GitHub names are case-insensitive, so the URL is lowercased.
+ */
+export function normalizeRepoUrl(url: string): string {
+  const match = url
+    .trim()
+    .match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+?)(?:\.git)?\/?(?:[?#].*)?$/)
+  if (!match) {
+    throw new Error("Invalid GitHub repository URL")
+  }
+  return `https://github.com/${match[1]}/${match[2]}`.toLowerCase()
+}
+
+export function isCommitSha(value: string): boolean {
+  return /^[0-9a-f]{40}$/i.test(value.trim())
+}
+
+export function createProvenanceTags({ repo, ref, commit }: GitProvenance): Tag[] {
+  return [
+    { name: GIT_REPO_TAG, value: repo },
+    { name: GIT_REF_TAG, value: ref },
+    { name: GIT_COMMIT_TAG, value: commit },
+  ]
+}
+
+/**
+ * Reads the provenance tags back from a transaction, when it has all of them
+ */
+export function readProvenance(tags: Tag[]): GitProvenance | null {
+  const value = (name: string) => tags.find((tag) => tag.name === name)?.value
+  const repo = value(GIT_REPO_TAG)
+  const ref = value(GIT_REF_TAG)
+  const commit = value(GIT_COMMIT_TAG)
+
+  return repo && ref && commit ? { repo, ref, commit } : null
+}
+
+/**
+ * Lists every deployment of a repository made with this app, newest first
+ */
+export async function findDeploymentsByRepo(repoUrl: string): Promise<GraphqlTransaction[]> {
+  return queryDeployments([{ name: GIT_REPO_TAG, values: [normalizeRepoUrl(repoUrl)] }])
+}
+
+/**
+ * Finds the deployments built from a commit, newest first; a commit may have been deployed more than once
+ */
+export async function findDeploymentsByCommit(commit: string): Promise<GraphqlTransaction[]> {
+  if (!isCommitSha(commit)) {
+    throw new Error("A commit SHA is 40 hexadecimal characters")
+  }
+  return queryDeployments([{ name: GIT_COMMIT_TAG, values: [commit.trim().toLowerCase()] }])
+}
+
+async function queryDeployments(tags: { name: string; values: string[] }[]): Promise<GraphqlTransaction[]> {
+  const filters = [...tags, { name: "App-Name", values: [APP_NAME] }]
+  const deployments: GraphqlTransaction[] = []
+  let after: string | undefined
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await queryGateway<{
+      transactions: { pageInfo: { hasNextPage: boolean }; edges: { cursor: string; node: GraphqlTransaction }[] }
+    }>(DEPLOYMENTS_QUERY, { tags: filters, after })
+
+    const { edges, pageInfo } = data.transactions
+    deployments.push(...edges.map((edge) => edge.node))
+
+    if (!pageInfo.hasNextPage || edges.length === 0) {
+      break
+    }
+    after = edges[edges.length - 1].cursor
+  }
+
+  return deployments
+}
@@ -0,0 +1,48 @@
+import { callApi } from "../api"
+import { getTransactionStatus } from "../arweave"
+import { ParseError } from "../errors"
+import type { DeployProvider, EndpointAttempt, UploadResult } from "./types"
+
+/**
+ * Uploads raw HTML through the hosted PermaWay backend, which pays for the transaction.
+ * Requests go through /api/deploy so the backend addresses and key stay on the server.
+ */
+export const backendProvider: DeployProvider = {
+  id: "backend",
+  label: "Hosted backend",
+  description: "Upload through the PermaWay backend service. No wallet required.",
+  idLabel: "Transaction ID",
+  supportsMultiFile: false,
+  // The backend's contract only covers the HTML; it may drop the tags it is sent
+  supportsTags: false,
+  signsOnServer: true,
+
+  async estimate() {
+    return { amount: "0", unit: "free", formatted: "Free (paid by the backend)" }
+  },
+
+  async upload(data, tags, options = {}) {
+    if (typeof data !== "string") {
+      throw new ParseError("the upload", "The hosted backend only accepts HTML content.")
+    }
+
+    // The route fails over between backends and bounds each request itself, then reports how each one went
+    const reportAttempts = (payload: { attempts?: EndpointAttempt[] }) =>
+      payload.attempts?.forEach((attempt) => options.onEndpointAttempt?.(attempt))
+
+    const { attempts, ...result } = await callApi<UploadResult & { attempts?: EndpointAttempt[] }>(
+      "/api/deploy",
+      { html: data, tags },
+      options.signal,
+      reportAttempts
+    )
+    reportAttempts({ attempts })
+    options.onProgress?.(100)
+
+    return result
+  },
+
+  status(id) {
+    return getTransactionStatus(id)
+  },
+}
@@ -0,0 +1,103 @@
+import { ArweaveSigner, createAoSigner } from "@ar.io/sdk"
+import { gatewayLinks } from "../arweave"
+import { BUNDLER_PAYMENT_URL, BUNDLER_URL } from "../config"
+import { BackendStatusError, InsufficientFundsError, SignatureRejectedError } from "../errors"
+import { fetchChecked } from "../http"
+import { getSigningWallet } from "../signer"
+import type { DeployProvider, Tag } from "./types"
+import { connectArweaveWallet } from "./wallet"
+
+// One credit is 10^12 winc, mirroring winston and AR
+const WINC_PER_CREDIT = 1e12
+
+/**
+ * Signs ANS-104 data items with the loaded keyfile or the connected wallet and posts them to a Turbo-compatible bundler
+ */
+export const bundlerProvider: DeployProvider = {
+  id: "bundler",
+  label: "Bundler (ANS-104)",
+  description:
+    "Sign a data item with ArConnect or a keyfile and send it to the configured bundler. Billed to your wallet's bundler credits.",
+  idLabel: "Data item ID",
+  supportsMultiFile: true,
+  supportsTags: true,
+  signsOnServer: false,
+
+  async estimate(bytes) {
+    const response = await fetchChecked(`${BUNDLER_PAYMENT_URL}/price/bytes/${bytes}`, {}, "The bundler payment service")
+
+    const { winc }: { winc: string } = await response.json()
+    return {
+      amount: winc,
+      unit: "winc",
+      formatted: `${(Number(winc) / WINC_PER_CREDIT).toFixed(6)} credits`,
+    }
+  },
+
+  async upload(data, tags, options = {}) {
+    const signedDataItem = await signDataItem(data, tags)
+
+    let response: Response
+    try {
+      response = await fetchChecked(
+        `${BUNDLER_URL}/tx`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/octet-stream",
+          },
+          body: signedDataItem,
+          signal: options.signal,
+        },
+        "The bundler"
+      )
+    } catch (error) {
+      // Turbo answers 402 Payment Required when the wallet has too few credits
+      if (error instanceof BackendStatusError && error.details.status === 402) {
+        throw new InsufficientFundsError("the bundler")
+      }
+      throw error
+    }
+
+    const { id }: { id: string } = await response.json()
+    // Data items are posted in a single request, so progress jumps straight to done
+    options.onProgress?.(100)
+
+    return { links: gatewayLinks(id), id }
+  },
+
+  async status(id) {
+    const response = await fetch(`${BUNDLER_URL}/tx/${id}/status`)
+
+    if (response.status === 404) {
+      return { state: "not_found" }
+    }
+
+    if (!response.ok) {
+      throw new Error(`Bundler status lookup failed with status: ${response.status}`)
+    }
+
+    // Data items are confirmed once the bundle carrying them is mined
+    const { status }: { status: string } = await response.json()
+    return { state: status === "CONFIRMED" || status === "FINALIZED" ? "confirmed" : "pending" }
+  },
+}
+
+// Signs with the keyfile when one is loaded, otherwise asks ArConnect
+async function signDataItem(data: string | Uint8Array, tags: Tag[]): Promise<ArrayBuffer> {
+  const keyfile = await getSigningWallet()
+  if (keyfile) {
+    // createData copies any byte array into a Buffer itself
+    const { raw } = await createAoSigner(new ArweaveSigner(keyfile.jwk))({ data: data as string | Buffer, tags })
+    return raw
+  }
+
+  await connectArweaveWallet()
+
+  const wallet = window.arweaveWallet as typeof window.arweaveWallet & ArweaveDataItemSigner
+  try {
+    return await wallet.signDataItem({ data, tags })
+  } catch (error) {
+    throw new SignatureRejectedError(error)
+  }
+}
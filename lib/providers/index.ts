@@ -0,0 +1,48 @@
+/**
+ * Registry of deploy targets. Register new providers here; the UI lists whatever is registered.
+ */
+import { isLocalGateway } from "../local-gateway"
+import { backendProvider } from "./backend"
+import { bundlerProvider } from "./bundler"
+import { localProvider } from "./local"
+import type { DeployProvider } from "./types"
+import { walletProvider } from "./wallet"
+
+export type {
+  CostEstimate,
+  DeployProvider,
+  DeployStatus,
+  EndpointAttempt,
+  Tag,
+  UploadOptions,
+  UploadResult,
+} from "./types"
+
+const providers = new Map<string, DeployProvider>()
+
+export const DEFAULT_PROVIDER_ID = isLocalGateway() ? localProvider.id : backendProvider.id
+
+export function registerDeployProvider(provider: DeployProvider): void {
+  providers.set(provider.id, provider)
+}
+
+export function getDeployProvider(id: string): DeployProvider {
+  const provider = providers.get(id)
+  if (!provider) {
+    throw new Error(`Unknown deploy provider: ${id}`)
+  }
+  return provider
+}
+
+export function listDeployProviders(): DeployProvider[] {
+  return Array.from(providers.values())
+}
+
+// Local mode replaces every network-backed target, so nothing can reach mainnet by accident
+if (isLocalGateway()) {
+  registerDeployProvider(localProvider)
+} else {
+  registerDeployProvider(backendProvider)
+  registerDeployProvider(walletProvider)
+  registerDeployProvider(bundlerProvider)
+}
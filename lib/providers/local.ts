@@ -0,0 +1,31 @@
+import { gatewayLinks, getTransactionStatus } from "../arweave"
+import { postLocalTransaction } from "../local-gateway"
+import type { DeployProvider } from "./types"
+
+/**
+ * Posts transactions to an arlocal-compatible gateway with a throwaway wallet. Only registered in local mode.
+ */
+export const localProvider: DeployProvider = {
+  id: "local",
+  label: "Local gateway",
+  description: "Post to the local test gateway with a throwaway wallet. Nothing reaches mainnet.",
+  idLabel: "Transaction ID",
+  supportsMultiFile: true,
+  supportsTags: true,
+  signsOnServer: false,
+
+  async estimate() {
+    return { amount: "0", unit: "free", formatted: "Free (local test gateway)" }
+  },
+
+  async upload(data, tags, options = {}) {
+    const id = await postLocalTransaction(data, tags)
+    options.onProgress?.(100)
+
+    return { links: gatewayLinks(id), id }
+  },
+
+  status(id) {
+    return getTransactionStatus(id)
+  },
+}
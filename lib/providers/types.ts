@@ -0,0 +1,66 @@
+/**
+ * Contract every deploy target implements, so the UI and pipeline never depend on a specific upload path
+ */
+export interface Tag {
+  name: string
+  value: string
+}
+
+export interface CostEstimate {
+  // Raw amount in the provider's smallest unit
+  amount: string
+  unit: "winston" | "winc" | "free"
+  // Human readable amount, e.g. "0.000123 AR"
+  formatted: string
+}
+
+export interface UploadResult {
+  links: string[]
+  id?: string
+}
+
+export interface UploadOptions {
+  // Called with the completed percentage (0-100) as the upload advances
+  onProgress?: (percent: number) => void
+  // Aborts the upload when the attempt times out or the deploy is cancelled
+  signal?: AbortSignal
+  // One of the provider's endpoints to use instead of its first
+  endpoint?: string
+  // Reports attempts the provider makes out of sight, such as a server failing over between its own endpoints
+  onEndpointAttempt?: (attempt: EndpointAttempt) => void
+}
+
+export interface EndpointAttempt {
+  // URL, or a label when the address is kept private
+  endpoint: string
+  durationMs: number
+  // Absent when the attempt succeeded
+  error?: string
+}
+
+export interface DeployStatus {
+  state: "pending" | "confirmed" | "not_found"
+  confirmations?: number
+}
+
+export interface DeployProvider {
+  id: string
+  label: string
+  description: string
+  // What the UI calls the ID returned by upload
+  idLabel: string
+  // Providers that upload arbitrary payloads and tags can deploy multi-file sites
+  supportsMultiFile: boolean
+  // Whether the uploaded transaction carries the tags it was given. Version history, provenance, duplicate detection
+  // and the receipt's tag check all read tags back from the chain, so they don't apply without it
+  supportsTags: boolean
+  // Uploads are signed and paid for by a server wallet, so the user needs no signer and doesn't own the transaction
+  signsOnServer: boolean
+  // Interchangeable endpoints, tried in order when one keeps failing
+  endpoints?: string[]
+  // Upper bound on a single upload attempt. Left unset for providers that wait on a wallet signature
+  attemptTimeoutMs?: number
+  estimate(bytes: number): Promise<CostEstimate>
+  upload(data: string | Uint8Array, tags: Tag[], options?: UploadOptions): Promise<UploadResult>
+  status(id: string): Promise<DeployStatus>
+}
@@ -0,0 +1,165 @@
+import type Arweave from "arweave"
+import type { JWKInterface } from "arweave/node/lib/wallet"
+import type { SerializedUploader, TransactionUploader } from "arweave/node/lib/transaction-uploader"
+import { gatewayLinks, getArweaveClient, getGatewayPrice, getTransactionStatus } from "../arweave"
+import { ARWEAVE_GATEWAY } from "../config"
+import { BackendStatusError, InsufficientFundsError, NetworkError, SignatureRejectedError } from "../errors"
+import { sha256Hex } from "../hash"
+import { getSigningWallet } from "../signer"
+import type { DeployProvider, Tag } from "./types"
+
+// Uploader state is saved per content, tags and signer, so a retried deploy picks up where it stopped
+// but a deploy of the same bytes with other tags or another wallet starts its own transaction
+const UPLOAD_STATE_PREFIX = "permaway:upload:"
+
+/**
+ * Builds, signs and posts a layer 1 transaction with the loaded keyfile or the connected ArConnect wallet
+ */
+export const walletProvider: DeployProvider = {
+  id: "wallet",
+  label: "Arweave wallet",
+  description:
+    "Sign and post the transaction yourself with ArConnect or a keyfile. You pay the fee and own the transaction.",
+  idLabel: "Transaction ID",
+  supportsMultiFile: true,
+  supportsTags: true,
+  signsOnServer: false,
+
+  estimate(bytes) {
+    return getGatewayPrice(bytes)
+  },
+
+  async upload(data, tags, options = {}) {
+    const keyfile = await getSigningWallet()
+    if (!keyfile) {
+      await connectArweaveWallet()
+    }
+
+    const arweave = getArweaveClient()
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+    const owner = keyfile?.address ?? (await window.arweaveWallet!.getActiveAddress())
+    const content = await sha256Hex(bytes)
+    const stateKey = UPLOAD_STATE_PREFIX + (await sha256Hex(JSON.stringify({ owner, tags, content })))
+
+    const uploader =
+      (await resumeUpload(arweave, stateKey, bytes)) ??
+      (await arweave.transactions.getUploader(await signTransaction(arweave, bytes, tags, keyfile)))
+    const id: string = uploader.toJSON().transaction.id
+
+    // Post the transaction header and then its data in 256 KiB chunks
+    while (!uploader.isComplete) {
+      // Stop as soon as the attempt is cancelled or times out, so a retry never races this loop
+      options.signal?.throwIfAborted()
+      try {
+        await uploader.uploadChunk()
+      } catch (error) {
+        // A zero status means the request never got a response
+        throw uploader.lastResponseStatus
+          ? new BackendStatusError("The Arweave gateway", uploader.lastResponseStatus, uploader.lastResponseError)
+          : new NetworkError(ARWEAVE_GATEWAY, error)
+      }
+      localStorage.setItem(stateKey, JSON.stringify(uploader))
+      options.onProgress?.(uploader.pctComplete)
+    }
+
+    localStorage.removeItem(stateKey)
+
+    return { links: gatewayLinks(id), id }
+  },
+
+  status(id) {
+    return getTransactionStatus(id)
+  },
+}
+
+/**
+ * Ensures ArConnect is installed and has granted the permissions uploads and receipts need
+ */
+export async function connectArweaveWallet(): Promise<void> {
+  if (typeof window === "undefined" || !window.arweaveWallet) {
+    throw new Error("ArConnect wallet not found. Please install ArConnect extension.")
+  }
+
+  try {
+    await window.arweaveWallet.connect(["ACCESS_ADDRESS", "ACCESS_PUBLIC_KEY", "SIGN_TRANSACTION", "SIGNATURE"])
+  } catch (error) {
+    // The only way connect fails once the extension is present is the user declining the permissions
+    throw new SignatureRejectedError(error)
+  }
+}
+
+// Signs with the keyfile when one is loaded, otherwise asks ArConnect
+async function signTransaction(
+  arweave: Arweave,
+  data: Uint8Array,
+  tags: Tag[],
+  keyfile: { jwk: JWKInterface; address: string } | null
+) {
+  const transaction = await arweave.createTransaction({ data }, keyfile?.jwk)
+  tags.forEach((tag) => transaction.addTag(tag.name, tag.value))
+
+  await ensureBalance(arweave, transaction.reward, keyfile?.address)
+
+  if (keyfile) {
+    await arweave.transactions.sign(transaction, keyfile.jwk)
+    return transaction
+  }
+
+  // The wallet may adjust owner, reward and tags while signing, so copy them back
+  let signed
+  try {
+    signed = await window.arweaveWallet!.sign(transaction)
+  } catch (error) {
+    throw new SignatureRejectedError(error)
+  }
+  transaction.setSignature({
+    id: signed.id,
+    owner: signed.owner,
+    reward: signed.reward,
+    tags: signed.tags,
+    signature: signed.signature,
+  })
+
+  return transaction
+}
+
+// Fails early with an actionable error instead of letting the gateway reject an unfunded transaction.
+// A failed balance lookup is not fatal.
+async function ensureBalance(arweave: Arweave, reward: string, address?: string): Promise<void> {
+  let balance: string
+  try {
+    balance = await arweave.wallets.getBalance(address ?? (await window.arweaveWallet!.getActiveAddress()))
+  } catch (error) {
+    console.warn("Balance lookup failed:", error)
+    return
+  }
+
+  if (BigInt(balance) < BigInt(reward)) {
+    throw new InsufficientFundsError(
+      "Arweave",
+      `${arweave.ar.winstonToAr(reward)} AR`,
+      `${arweave.ar.winstonToAr(balance)} AR`
+    )
+  }
+}
+
+// Rebuilds an interrupted upload of the same content from its saved state, if there is one
+async function resumeUpload(
+  arweave: Arweave,
+  stateKey: string,
+  data: Uint8Array
+): Promise<TransactionUploader | null> {
+  const saved = localStorage.getItem(stateKey)
+  if (!saved) {
+    return null
+  }
+
+  try {
+    const state: SerializedUploader = JSON.parse(saved)
+    return await arweave.transactions.getUploader(state, data)
+  } catch (error) {
+    console.warn("Discarding unusable upload state:", error)
+    localStorage.removeItem(stateKey)
+    return null
+  }
+}
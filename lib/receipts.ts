@@ -0,0 +1,221 @@
+/**
+ * Signed receipts recording what was deployed, from where and by whom, and checks of a receipt against the chain
+ */
+import Arweave from "arweave"
+import { getArweaveClient } from "./arweave"
+import { ARWEAVE_GATEWAY, DEPLOY_BACKEND_ADDRESSES } from "./config"
+import { CONTENT_HASH_TAG } from "./dedupe"
+import { SignatureRejectedError } from "./errors"
+import { queryGateway, type GraphqlTransaction } from "./graphql"
+import { sha256Hex } from "./hash"
+import type { Tag } from "./providers"
+import { connectArweaveWallet } from "./providers/wallet"
+import { getSigningWallet } from "./signer"
+
+export type ReceiptSource =
+  | { type: "url"; url: string }
+  | { type: "github"; repo: string; ref: string }
+  | { type: "file"; name: string }
+
+export interface DeploymentReceipt {
+  version: 1
+  source: ReceiptSource
+  contentSha256: string
+  // Every transaction the deploy created; the last one is what the links serve
+  transactionIds: string[]
+  tags: Tag[]
+  // When the deploy completed
+  timestamp: string
+  walletAddress: string
+  // Set when a server wallet uploaded and owns the transactions, rather than the signer of the receipt
+  signedOnServer?: true
+}
+
+// What the deploy knows; the signer fills in the rest
+export type ReceiptFields = Omit<DeploymentReceipt, "version" | "walletAddress">
+
+export interface SignedReceipt {
+  receipt: DeploymentReceipt
+  // RSA-PSS signature over the UTF-8 JSON of the receipt, base64url encoded
+  signature: string
+  // Signer's RSA modulus (the Arweave "owner"), base64url encoded
+  publicKey: string
+}
+
+export interface ReceiptCheck {
+  label: string
+  passed: boolean
+  detail?: string
+}
+
+/**
+ * Signs a receipt with the connected wallet, or with the throwaway wallet in local mode
+ */
+export async function signReceipt(fields: ReceiptFields): Promise<SignedReceipt> {
+  const arweave = getArweaveClient()
+
+  const keyfile = await getSigningWallet()
+  if (keyfile) {
+    const { jwk, address } = keyfile
+    const receipt = buildReceipt(fields, address)
+    const signature = await arweave.crypto.sign(jwk, encodeReceipt(receipt), { saltLength: 32 })
+    return { receipt, signature: Arweave.utils.bufferTob64Url(signature), publicKey: jwk.n }
+  }
+
+  await connectArweaveWallet()
+  const wallet = window.arweaveWallet!
+  const receipt = buildReceipt(fields, await wallet.getActiveAddress())
+
+  let signature: Uint8Array
+  try {
+    signature = new Uint8Array(
+      await wallet.signature(encodeReceipt(receipt), { name: "RSA-PSS", saltLength: 32 })
+    )
+  } catch (error) {
+    throw new SignatureRejectedError(error)
+  }
+
+  return {
+    receipt,
+    signature: Arweave.utils.bufferTob64Url(signature),
+    publicKey: await wallet.getActivePublicKey(),
+  }
+}
+
+/**
+ * Checks a receipt's signature and signer, then that every transaction exists, is owned by the recorded wallet,
+ * and carries the recorded tags and content
+ */
+export async function verifyReceipt(signed: SignedReceipt): Promise<ReceiptCheck[]> {
+  const arweave = getArweaveClient()
+  const { receipt } = signed
+  const checks: ReceiptCheck[] = []
+
+  const signatureValid = await arweave.crypto
+    .verify(signed.publicKey, encodeReceipt(receipt), Arweave.utils.b64UrlToBuffer(signed.signature))
+    .catch(() => false)
+  checks.push({ label: "Signature matches the receipt", passed: signatureValid })
+
+  const signerAddress = await arweave.wallets.ownerToAddress(signed.publicKey)
+  checks.push({
+    label: "Signed by the recorded wallet",
+    passed: signerAddress === receipt.walletAddress,
+    detail: signerAddress,
+  })
+
+  const { transactions } = await queryGateway<{ transactions: { edges: { node: GraphqlTransaction }[] } }>(
+    `query ($ids: [ID!]) {
+      transactions(ids: $ids, first: 100) {
+        edges { node { id owner { address } tags { name value } data { size } block { height timestamp } } }
+      }
+    }`,
+    { ids: receipt.transactionIds }
+  )
+  const found = new Map(transactions.edges.map(({ node }) => [node.id, node]))
+
+  for (const id of receipt.transactionIds) {
+    const transaction = found.get(id)
+    checks.push({
+      label: `Transaction ${id} is on chain`,
+      passed: transaction !== undefined,
+      detail: transaction?.block ? `Block ${transaction.block.height}` : transaction ? "Not yet mined" : "Not found",
+    })
+  }
+
+  checks.push(checkOwners(receipt, Array.from(found.values())))
+
+  // Receipt tags describe the transaction the links serve; per-file tags differ in Content-Type
+  const primary = found.get(receipt.transactionIds[receipt.transactionIds.length - 1])
+  if (primary) {
+    const missing = receipt.tags.filter(
+      (tag) => !primary.tags.some((chainTag) => chainTag.name === tag.name && chainTag.value === tag.value)
+    )
+    checks.push({
+      label: "Tags match the chain",
+      passed: missing.length === 0,
+      detail: missing.length ? `Missing: ${missing.map((tag) => tag.name).join(", ")}` : undefined,
+    })
+
+    const hashTag = primary.tags.find((tag) => tag.name === CONTENT_HASH_TAG)
+    if (hashTag) {
+      checks.push({ label: "Content hash tag matches", passed: hashTag.value === receipt.contentSha256 })
+    }
+  }
+
+  checks.push(await checkServedContent(receipt))
+
+  return checks
+}
+
+/**
+ * Parses a receipt file, rejecting anything that isn't shaped like a signed receipt
+ */
+export function parseSignedReceipt(text: string): SignedReceipt {
+  const parsed = JSON.parse(text)
+  if (
+    typeof parsed?.signature !== "string" ||
+    typeof parsed?.publicKey !== "string" ||
+    parsed?.receipt?.version !== 1 ||
+    !Array.isArray(parsed.receipt.transactionIds)
+  ) {
+    throw new Error("This file is not a PermaWay deployment receipt.")
+  }
+  return parsed
+}
+
+// Anyone can sign a receipt listing any transactions, so they must belong to the signer. Backend deploys are owned
+// by the backend's wallet instead, which only the configured addresses can vouch for.
+function checkOwners(receipt: DeploymentReceipt, transactions: GraphqlTransaction[]): ReceiptCheck {
+  const label = receipt.signedOnServer ? "Uploaded by the deploy backend" : "Uploaded by the recorded wallet"
+  const owners = receipt.signedOnServer ? DEPLOY_BACKEND_ADDRESSES : [receipt.walletAddress]
+
+  if (owners.length === 0) {
+    return { label, passed: false, detail: "No deploy backend addresses are configured to check against" }
+  }
+  if (transactions.length === 0) {
+    return { label, passed: false, detail: "No transactions found" }
+  }
+
+  const foreign = transactions
+    .filter((transaction) => !owners.includes(transaction.owner.address))
+    .map((transaction) => `${transaction.id} (${transaction.owner.address})`)
+  return {
+    label,
+    passed: foreign.length === 0,
+    detail: foreign.length ? `Owned by another wallet: ${foreign.join(", ")}` : undefined,
+  }
+}
+
+async function checkServedContent(receipt: DeploymentReceipt): Promise<ReceiptCheck> {
+  const id = receipt.transactionIds[receipt.transactionIds.length - 1]
+  const label = "Gateway serves the recorded content"
+
+  try {
+    const response = await fetch(`${ARWEAVE_GATEWAY}/${id}`, { cache: "no-store" })
+    if (!response.ok) {
+      return { label, passed: false, detail: `Status ${response.status}` }
+    }
+    const hash = await sha256Hex(new Uint8Array(await response.arrayBuffer()))
+    return { label, passed: hash === receipt.contentSha256, detail: hash }
+  } catch (error) {
+    return { label, passed: false, detail: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+// Field order is fixed here, and JSON.parse keeps it, so verifying re-encodes the exact signed bytes
+function buildReceipt(fields: ReceiptFields, walletAddress: string): DeploymentReceipt {
+  return {
+    version: 1,
+    source: fields.source,
+    contentSha256: fields.contentSha256,
+    transactionIds: fields.transactionIds,
+    tags: fields.tags,
+    timestamp: fields.timestamp,
+    walletAddress,
+    ...(fields.signedOnServer ? { signedOnServer: true } : {}),
+  }
+}
+
+function encodeReceipt(receipt: DeploymentReceipt): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(receipt))
+}
@@ -0,0 +1,107 @@
+/**
+ * Retries an async operation with exponential backoff, full jitter and a per-attempt timeout
+ */
+export interface RetryOptions {
+  attempts: number
+  // First backoff window; each retry doubles it up to maxDelayMs
+  baseDelayMs?: number
+  maxDelayMs?: number
+  // Aborts and fails an attempt that runs longer than this
+  timeoutMs?: number
+  // Cancels the current attempt and any retries still to come
+  signal?: AbortSignal
+  // Errors for which another attempt is pointless fail straight away
+  shouldRetry?: (error: unknown) => boolean
+  onAttempt?: (record: AttemptRecord) => void
+}
+
+export interface AttemptRecord {
+  attempt: number
+  durationMs: number
+  // Absent when the attempt succeeded
+  error?: unknown
+  // Delay before the next attempt, when there is one
+  retryInMs?: number
+}
+
+export class AttemptTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${Math.round(timeoutMs / 1000)}s`)
+    this.name = "AttemptTimeoutError"
+  }
+}
+
+const DEFAULT_BASE_DELAY_MS = 1_000
+const DEFAULT_MAX_DELAY_MS = 15_000
+
+export async function withRetry<T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted()
+
+    const startedAt = Date.now()
+    try {
+      const result = await runAttempt(operation, options.timeoutMs, options.signal)
+      options.onAttempt?.({ attempt, durationMs: Date.now() - startedAt })
+      return result
+    } catch (error) {
+      const retrying =
+        attempt < options.attempts && !options.signal?.aborted && (options.shouldRetry?.(error) ?? true)
+      const retryInMs = retrying
+        ? backoffDelay(attempt, options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS, options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS)
+        : undefined
+
+      options.onAttempt?.({ attempt, durationMs: Date.now() - startedAt, error, retryInMs })
+
+      if (retryInMs === undefined) {
+        throw error
+      }
+      await wait(retryInMs, options.signal)
+    }
+  }
+}
+
+/**
+ * Full jitter: a random delay between zero and the exponentially growing window, so clients don't retry in lockstep
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const window = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(Math.random() * window)
+}
+
+async function runAttempt<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  outerSignal: AbortSignal | undefined
+): Promise<T> {
+  const controller = new AbortController()
+  const abortFromOuter = () => controller.abort(outerSignal?.reason)
+  outerSignal?.addEventListener("abort", abortFromOuter)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    // Race the operation so a provider that ignores the signal still can't hang the attempt
+    return await Promise.race([
+      operation(controller.signal),
+      new Promise<never>((_, reject) => {
+        controller.signal.addEventListener("abort", () => reject(controller.signal.reason))
+        if (timeoutMs) {
+          timer = setTimeout(() => controller.abort(new AttemptTimeoutError(timeoutMs)), timeoutMs)
+        }
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+    outerSignal?.removeEventListener("abort", abortFromOuter)
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    })
+  })
+}
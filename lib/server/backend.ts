@@ -0,0 +1,78 @@
+/**
+ * Uploads HTML through the hosted deploy backends, failing over between them in order
+ */
+import { extractTransactionId } from "../arns-utils"
+import { BackendStatusError, canFailOver, NetworkError } from "../errors"
+import { fetchChecked } from "../http"
+import type { EndpointAttempt, Tag, UploadResult } from "../providers/types"
+import { DEPLOY_BACKEND_API_KEY, DEPLOY_BACKEND_TIMEOUT_MS, DEPLOY_BACKEND_URLS } from "./config"
+
+/**
+ * Reports each backend tried under a numbered label rather than its address, for the client's attempt log
+ */
+export async function deployThroughBackend(
+  html: string,
+  tags: Tag[],
+  onAttempt?: (attempt: EndpointAttempt) => void
+): Promise<UploadResult> {
+  let lastError: unknown
+
+  for (const [index, url] of DEPLOY_BACKEND_URLS.entries()) {
+    const endpoint = `Backend ${index + 1}`
+    const startedAt = Date.now()
+    try {
+      const result = await postToBackend(url, html, tags)
+      onAttempt?.({ endpoint, durationMs: Date.now() - startedAt })
+      return result
+    } catch (error) {
+      lastError = error
+      onAttempt?.({
+        endpoint,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      if (!canFailOver(error)) {
+        throw error
+      }
+      console.warn(`Deploy backend ${url} failed, trying the next one:`, error)
+    }
+  }
+
+  throw lastError ?? new Error("No deploy backends are configured")
+}
+
+async function postToBackend(url: string, html: string, tags: Tag[]): Promise<UploadResult> {
+  let response: Response
+  try {
+    response = await fetchChecked(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(DEPLOY_BACKEND_API_KEY ? { Authorization: `Bearer ${DEPLOY_BACKEND_API_KEY}` } : {}),
+        },
+        // Tags are passed along, but the backend only promises to upload the HTML, so nothing relies on them
+        body: JSON.stringify({ html, tags }),
+        signal: AbortSignal.timeout(DEPLOY_BACKEND_TIMEOUT_MS),
+      },
+      "The deploy backend"
+    )
+  } catch (error) {
+    // Never echo the backend's address to the client; that is the point of routing through the server
+    if (error instanceof NetworkError) {
+      throw new NetworkError("the deploy backend", error.cause)
+    }
+    throw error
+  }
+
+  const result: { success: boolean; links: string[] } = await response.json()
+  if (!result.success) {
+    throw new BackendStatusError("The deploy backend", response.status, "The backend reported an unsuccessful deployment")
+  }
+
+  return {
+    links: result.links,
+    id: result.links.map(extractTransactionId).find((id) => id !== null) ?? undefined,
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Server-only configuration. These variables have no NEXT_PUBLIC_ prefix, so they never reach the client bundle.
+ */
+import { parseList, parseOptionalNumber } from "../config"
+
+// Hosted services that upload raw HTML on our behalf, tried in order. Comma-separate to add fallbacks
+export const DEPLOY_BACKEND_URLS = parseList(
+  process.env.DEPLOY_BACKEND_URLS || process.env.DEPLOY_BACKEND_URL || "https://aoile-backend.onrender.com/deploy"
+)
+
+// Sent as a bearer token to the deploy backends, when set
+export const DEPLOY_BACKEND_API_KEY = process.env.DEPLOY_BACKEND_API_KEY || null
+
+// How long one backend request may take. The backend cold-starts in up to a minute, so this leaves room for that.
+export const DEPLOY_BACKEND_TIMEOUT_MS = parseOptionalNumber(process.env.DEPLOY_BACKEND_TIMEOUT_MS) ?? 90_000
+
+// Raises the GitHub API rate limit, when set. Only public repositories are downloaded, whatever else the token can read
+export const GITHUB_TOKEN = process.env.GITHUB_TOKEN || null
+
+// Rendering service for pages that build their content with JavaScript; skipped when unset
+export const SCRAPER_API_KEY = process.env.SCRAPER_API_KEY || null
+
+// Per-request limit when the server fetches pages, stylesheets and repositories
+export const FETCH_TIMEOUT_MS = parseOptionalNumber(process.env.FETCH_TIMEOUT_MS) ?? 30_000
+
+// Other origins, besides the one serving the app, allowed to call the deploy and process routes. Comma-separate to add more
+export const ALLOWED_ORIGINS = parseList(process.env.ALLOWED_ORIGINS || "")
+
+// Deployments one client may make through the backend per window, since each one spends the backend's key
+export const DEPLOY_RATE_LIMIT = parseOptionalNumber(process.env.DEPLOY_RATE_LIMIT) ?? 10
+export const DEPLOY_RATE_WINDOW_MS = parseOptionalNumber(process.env.DEPLOY_RATE_WINDOW_MS) ?? 60 * 60 * 1000
+
+// Pages and repositories one client may import per window, since each one spends the GitHub token or scraper key
+export const PROCESS_RATE_LIMIT = parseOptionalNumber(process.env.PROCESS_RATE_LIMIT) ?? 30
+export const PROCESS_RATE_WINDOW_MS = parseOptionalNumber(process.env.PROCESS_RATE_WINDOW_MS) ?? 60 * 60 * 1000
@@ -0,0 +1,81 @@
+/**
+ * Downloads GitHub repositories on the server, straight from the GitHub API
+ */
+import { BackendStatusError, ParseError } from "../errors"
+import { fetchChecked } from "../http"
+import { normalizeRepoUrl, type GitProvenance } from "../provenance"
+import { FETCH_TIMEOUT_MS, GITHUB_TOKEN } from "./config"
+
+// Archives can be large, so allow longer than a page fetch
+const DOWNLOAD_TIMEOUT_MS = FETCH_TIMEOUT_MS * 4
+
+export function isValidGithubUrl(url: string): boolean {
+  const githubRegex = /^https?:\/\/(www\.)?github\.com\/[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+\/?$/
+  return githubRegex.test(url.replace(/\/$/, ""))
+}
+
+/**
+ * Downloads the latest commit on the default branch as a zip archive, with the commit it was built from
+ */
+export async function downloadGithubRepo(url: string): Promise<{ file: File; provenance: GitProvenance }> {
+  if (!isValidGithubUrl(url)) {
+    throw new ParseError("the GitHub URL", "Invalid GitHub repository URL")
+  }
+
+  const { owner, repo } = extractRepoInfo(url)
+
+  try {
+    const { default_branch: ref, private: isPrivate }: { default_branch: string; private: boolean } = await (
+      await fetchGithub(`https://api.github.com/repos/${owner}/${repo}`, FETCH_TIMEOUT_MS)
+    ).json()
+    // The token is only for rate limits. Any caller names the repository, so one only the token can read is
+    // reported as missing rather than downloaded.
+    if (isPrivate) {
+      throw new BackendStatusError("GitHub", 404)
+    }
+    // Pinning the archive to a SHA means the tags describe exactly what was downloaded, even if the branch moves
+    const commit = (
+      await (
+        await fetchGithub(
+          `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`,
+          FETCH_TIMEOUT_MS,
+          "application/vnd.github.sha"
+        )
+      ).text()
+    ).trim()
+
+    const response = await fetchGithub(`https://api.github.com/repos/${owner}/${repo}/zipball/${commit}`, DOWNLOAD_TIMEOUT_MS)
+    const data = await response.arrayBuffer()
+
+    return {
+      file: new File([data], `${repo}.zip`, { type: "application/zip" }),
+      provenance: { repo: normalizeRepoUrl(url), ref, commit },
+    }
+  } catch (error) {
+    if (error instanceof BackendStatusError && error.details.status === 404) {
+      throw new ParseError(`${owner}/${repo}`, "Repository not found. Check the URL, and that the repository is public.")
+    }
+    throw error
+  }
+}
+
+function fetchGithub(url: string, timeoutMs: number, accept = "application/vnd.github+json"): Promise<Response> {
+  return fetchChecked(
+    url,
+    {
+      headers: {
+        Accept: accept,
+        "User-Agent": "PermaWay",
+        ...(GITHUB_TOKEN ? { Authorization: `Bearer ${GITHUB_TOKEN}` } : {}),
+      },
+      signal: AbortSignal.timeout(timeoutMs),
+    },
+    "GitHub"
+  )
+}
+
+function extractRepoInfo(url: string): { owner: string; repo: string } {
+  // Remove trailing slash and any additional paths
+  const [, , , owner, repo] = url.replace(/\/$/, "").split("?")[0].split("#")[0].split("/")
+  return { owner, repo: repo.replace(/\.git$/, "") }
+}
@@ -0,0 +1,85 @@
+/**
+ * Checks for the routes that spend the server's own credentials, so they can't be used as an open relay
+ */
+import { BackendStatusError, serializeError } from "../errors"
+import {
+  ALLOWED_ORIGINS,
+  DEPLOY_RATE_LIMIT,
+  DEPLOY_RATE_WINDOW_MS,
+  PROCESS_RATE_LIMIT,
+  PROCESS_RATE_WINDOW_MS,
+} from "./config"
+
+type RequestGuard = (request: Request) => Response | null
+
+/**
+ * Returns an error response when the request comes from another site or the client is over the deploy rate limit,
+ * or null when it may go ahead
+ */
+export const guardDeployRequest = createRequestGuard("deployments", DEPLOY_RATE_LIMIT, DEPLOY_RATE_WINDOW_MS)
+
+/**
+ * The same checks for the routes that fetch pages and repositories, which spend the GitHub token and the
+ * rendering service's key. Counted separately, so importing a site doesn't use up its deploys.
+ */
+export const guardProcessRequest = createRequestGuard("imports", PROCESS_RATE_LIMIT, PROCESS_RATE_WINDOW_MS)
+
+function createRequestGuard(action: string, limit: number, windowMs: number): RequestGuard {
+  // Request times per client within the current window. Held in memory, so each server instance counts on its own
+  const recentRequests = new Map<string, number[]>()
+
+  return (request) => {
+    if (!isSameOrigin(request)) {
+      return reject(403, `${action[0].toUpperCase()}${action.slice(1)} can only be started from this app`)
+    }
+
+    const now = Date.now()
+    // Keeps the table from growing with every address that has ever made a request
+    recentRequests.forEach((times, client) => {
+      if (times.every((time) => now - time >= windowMs)) {
+        recentRequests.delete(client)
+      }
+    })
+
+    const client = clientAddress(request)
+    const recent = (recentRequests.get(client) ?? []).filter((time) => now - time < windowMs)
+
+    if (recent.length >= limit) {
+      recentRequests.set(client, recent)
+      const retryAfter = Math.ceil((recent[0] + windowMs - now) / 1000)
+      return reject(429, `Too many ${action}. Try again in ${Math.ceil(retryAfter / 60)} minutes.`, {
+        "Retry-After": String(retryAfter),
+      })
+    }
+
+    recent.push(now)
+    recentRequests.set(client, recent)
+    return null
+  }
+}
+
+// Browsers always send Origin on POST, so a missing one means the request didn't come from a page
+function isSameOrigin(request: Request): boolean {
+  const origin = request.headers.get("origin")
+  if (!origin) {
+    return false
+  }
+
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host") ?? new URL(request.url).host
+  try {
+    return new URL(origin).host === host || ALLOWED_ORIGINS.includes(origin.replace(/\/$/, ""))
+  } catch {
+    return false
+  }
+}
+
+function clientAddress(request: Request): string {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip") || "unknown"
+  )
+}
+
+function reject(status: number, message: string, headers?: Record<string, string>): Response {
+  const error = new BackendStatusError("The PermaWay server", status, message)
+  return Response.json({ error: serializeError(error) }, { status, headers })
+}
@@ -0,0 +1,37 @@
+/**
+ * JSON responses for the API route handlers, carrying PermawayErrors across to the client intact
+ */
+import { classifyError, ParseError, PermawayError, serializeError, type PermawayErrorCode } from "../errors"
+
+const STATUS_BY_CODE: Record<PermawayErrorCode, number> = {
+  SIZE_LIMIT: 413,
+  NETWORK: 504,
+  PROXY: 502,
+  BACKEND_STATUS: 502,
+  PARSE_FAILURE: 422,
+  SIGNATURE_REJECTED: 403,
+  INSUFFICIENT_FUNDS: 402,
+}
+
+// extra is sent alongside the error, for routes that report more than the failure itself
+export function errorResponse(error: unknown, extra: Record<string, unknown> = {}): Response {
+  const classified = classifyError(error)
+  console.error("API request failed:", classified)
+
+  if (classified instanceof PermawayError) {
+    return Response.json({ ...extra, error: serializeError(classified) }, { status: STATUS_BY_CODE[classified.code] })
+  }
+
+  return Response.json({ ...extra, error: { message: classified.message } }, { status: 500 })
+}
+
+/**
+ * Reads a JSON request body, reporting malformed bodies as a parse failure rather than a server error
+ */
+export async function readJson<T>(request: Request): Promise<T> {
+  try {
+    return await request.json()
+  } catch (error) {
+    throw new ParseError("the request", "The body is not valid JSON.", error)
+  }
+}
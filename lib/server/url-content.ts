@@ -0,0 +1,122 @@
+/**
+ * Fetches a live page on the server, where no CORS proxy is needed, and inlines its stylesheets
+ */
+import { NetworkError, ParseError, PermawayError, ProxyError } from "../errors"
+import { fetchChecked } from "../http"
+import { processHtml } from "../html-processor"
+import { FETCH_TIMEOUT_MS, SCRAPER_API_KEY } from "./config"
+import { assertPublicUrl, fetchPublic } from "./public-fetch"
+
+export async function fetchUrlContent(url: string): Promise<string> {
+  if (!/^https?:\/\//i.test(url)) {
+    throw new ParseError(url, "Only http and https URLs can be deployed")
+  }
+
+  try {
+    // Checked up front too, so internal addresses aren't handed to the rendering service either
+    await assertPublicUrl(url)
+    const html = SCRAPER_API_KEY ? await fetchWithRenderer(url) : await fetchPage(url)
+    return processHtml(await enhanceHtmlWithExternalResources(html, url))
+  } catch (error) {
+    if (error instanceof PermawayError) {
+      throw error
+    }
+    throw new ParseError(url, error instanceof Error ? error.message : "Unknown error", error)
+  }
+}
+
+async function fetchPage(url: string): Promise<string> {
+  const response = await fetchPublic(
+    url,
+    {
+      headers: {
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    },
+    "The page"
+  )
+  return response.text()
+}
+
+// Pages that build their content with JavaScript need a rendering service. A failure falls back to the plain fetch,
+// and when that fails too, neither route could download the page.
+async function fetchWithRenderer(url: string): Promise<string> {
+  let rendererFailed = false
+  try {
+    const html = await fetchRenderedPage(url)
+    if (html.includes("<html")) {
+      return html
+    }
+  } catch (error) {
+    console.warn("Rendering service failed, fetching the page directly:", error instanceof NetworkError ? error.message : error)
+    rendererFailed = true
+  }
+
+  try {
+    return await fetchPage(url)
+  } catch (error) {
+    throw rendererFailed ? new ProxyError(url, 2, error) : error
+  }
+}
+
+async function fetchRenderedPage(url: string): Promise<string> {
+  const response = await fetchChecked(
+    `https://api.scraperapi.com?api_key=${SCRAPER_API_KEY}&url=${encodeURIComponent(url)}&render=true`,
+    { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS * 2) },
+    "The rendering service"
+  )
+  return response.text()
+}
+
+// Replaces stylesheet links with their content and makes image sources absolute
+async function enhanceHtmlWithExternalResources(html: string, baseUrl: string): Promise<string> {
+  const linkPattern = /<link\b[^>]*\brel\s*=\s*["']?stylesheet["']?[^>]*>/gi
+  const links = html.match(linkPattern) ?? []
+
+  const stylesheets = await Promise.all(
+    links.map(async (link) => {
+      const href = link.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1]
+      return href ? fetchCssContent(href, baseUrl) : ""
+    })
+  )
+
+  let enhanced = html
+  links.forEach((link, index) => {
+    // Keep links whose stylesheet could not be fetched, so the page still tries to load it
+    if (stylesheets[index]) {
+      enhanced = enhanced.replace(link, () => `<style>${stylesheets[index]}</style>`)
+    }
+  })
+
+  return enhanced.replace(/(<img\b[^>]*\bsrc\s*=\s*["'])([^"']+)(["'])/gi, (match, prefix, src, suffix) => {
+    if (/^(data:|https?:)/i.test(src)) {
+      return match
+    }
+    try {
+      return `${prefix}${new URL(src, baseUrl).toString()}${suffix}`
+    } catch {
+      return match
+    }
+  })
+}
+
+async function fetchCssContent(href: string, baseUrl: string): Promise<string> {
+  let cssUrl = href
+  try {
+    cssUrl = new URL(href, baseUrl).toString()
+    // The page chooses these URLs, so they get the same checks as the page itself
+    const response = await fetchPublic(
+      cssUrl,
+      {
+        headers: { Accept: "text/css,*/*;q=0.1" },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      },
+      "The stylesheet"
+    )
+    return `/* Fetched from: ${cssUrl} */\n${await response.text()}`
+  } catch (error) {
+    console.warn(`Failed to fetch CSS from ${cssUrl}:`, error)
+    return ""
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Chooses what signs deployments, receipts and ARNS updates: the local test wallet, an uploaded keyfile, or ArConnect.
+ * A keyfile is held in memory for the session only and never written to storage.
+ */
+import type { JWKInterface } from "arweave/node/lib/wallet"
+import { getArweaveClient } from "./arweave"
+import { getLocalWallet, isLocalGateway } from "./local-gateway"
+
+export type ActiveSigner =
+  | { type: "local" }
+  | { type: "keyfile"; address: string; fileName: string }
+  | { type: "arconnect" }
+
+interface Keyfile {
+  jwk: JWKInterface
+  address: string
+  fileName: string
+}
+
+const JWK_FIELDS = ["n", "e", "d", "p", "q", "dp", "dq", "qi"] as const
+
+let keyfile: Keyfile | null = null
+let activeSigner: ActiveSigner = isLocalGateway() ? { type: "local" } : { type: "arconnect" }
+const listeners = new Set<() => void>()
+
+/**
+ * Reads an Arweave JWK keyfile into memory and makes it the active signer, returning its address
+ */
+export async function loadKeyfile(file: File): Promise<string> {
+  let jwk: unknown
+  try {
+    jwk = JSON.parse(await file.text())
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`)
+  }
+
+  if (!isRsaJwk(jwk)) {
+    throw new Error(`${file.name} is not an Arweave keyfile. Expected an RSA private key in JWK format.`)
+  }
+
+  const address = await getArweaveClient().wallets.jwkToAddress(jwk)
+  keyfile = { jwk, address, fileName: file.name }
+  setActiveSigner({ type: "keyfile", address, fileName: file.name })
+
+  return address
+}
+
+/**
+ * Drops the keyfile from memory, falling back to ArConnect
+ */
+export function forgetKeyfile(): void {
+  keyfile = null
+  setActiveSigner(isLocalGateway() ? { type: "local" } : { type: "arconnect" })
+}
+
+export function getActiveSigner(): ActiveSigner {
+  return activeSigner
+}
+
+/**
+ * Notifies the listener whenever the active signer changes; returns the unsubscribe function
+ */
+export function subscribeToSigner(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Key to sign with in the browser, or null when ArConnect should be asked instead.
+ * Local mode always uses its funded test wallet, since a real keyfile holds nothing on the local gateway.
+ */
+export async function getSigningWallet(): Promise<{ jwk: JWKInterface; address: string } | null> {
+  if (isLocalGateway()) {
+    return getLocalWallet()
+  }
+  return keyfile && { jwk: keyfile.jwk, address: keyfile.address }
+}
+
+function setActiveSigner(signer: ActiveSigner): void {
+  // Local mode never switches, so keep showing the test wallet
+  activeSigner = isLocalGateway() ? { type: "local" } : signer
+  listeners.forEach((listener) => listener())
+}
+
+function isRsaJwk(value: unknown): value is JWKInterface {
+  if (typeof value !== "object" || value === null) {
+    return false
+  }
+
+  const jwk = value as Record<string, unknown>
+  return jwk.kty === "RSA" && JWK_FIELDS.every((field) => typeof jwk[field] === "string" && jwk[field])
+}
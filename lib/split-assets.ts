@@ -0,0 +1,156 @@
+/**
+ * Moves large inlined assets out of a generated page so the entry document fits the size budget.
+ * The result is a multi-file site deployed behind a manifest, with the page referencing each asset by path.
+ */
+import { decodeBase64 } from "./base64"
+import { SizeLimitError } from "./errors"
+import { getExtension } from "./mime"
+import type { SiteFile } from "./zip-processing"
+
+// Assets smaller than this stay inline; a separate transaction would cost more than it saves
+const MIN_ASSET_BYTES = 8 * 1024
+
+// Script types that hold data rather than code, and must stay inline to be found by the page
+const INLINE_ONLY_SCRIPT_TYPES = /json|importmap|template/i
+
+// An inline script's opening tag, body and closing tag
+const SCRIPT_BODY = /(<script\b[^>]*>)([\s\S]*?)(<\/script>)/gi
+
+interface Candidate {
+  // Exact text in the page to replace
+  match: string
+  // Leaves copies of the text inside inline scripts alone, since the script may use it itself
+  outsideScripts?: boolean
+  bytes: number
+  extract: (index: number) => { file: SiteFile; replacement: string }
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * Splits oversized HTML into an index.html under the budget plus one file per extracted asset.
+ * All files sit next to index.html so references resolve the same from the page and from stylesheets.
+ */
+export function splitOversizedHtml(html: string, budgetBytes: number): SiteFile[] {
+  const assets: SiteFile[] = []
+  let page = html
+
+  // Binary data URIs first: base64 inflates them by a third, so they save the most
+  for (const findCandidates of [findDataUris, findInlineBlocks]) {
+    const candidates = findCandidates(page).sort((a, b) => b.bytes - a.bytes)
+
+    for (const candidate of candidates) {
+      if (byteLength(page) <= budgetBytes) {
+        break
+      }
+      // An earlier replacement may have already removed this text
+      if (!(candidate.outsideScripts ? withoutScriptBodies(page) : page).includes(candidate.match)) {
+        continue
+      }
+
+      const { file, replacement } = candidate.extract(assets.length + 1)
+      const replace = (text: string) => text.split(candidate.match).join(replacement)
+      assets.push(file)
+      page = candidate.outsideScripts ? outsideScriptBodies(page, replace) : replace(page)
+    }
+  }
+
+  const pageBytes = byteLength(page)
+  if (pageBytes > budgetBytes) {
+    throw new SizeLimitError(pageBytes / 1024, budgetBytes / 1024)
+  }
+
+  return [{ path: "index.html", data: encoder.encode(page), contentType: "text/html" }, ...assets]
+}
+
+// data: URIs in attributes and CSS url(), but not in scripts, which may decode them themselves
+function findDataUris(html: string): Candidate[] {
+  const pattern = /((?:src|href|poster)\s*=\s*["']|url\(\s*["']?)(data:([\w.+-]+\/[\w.+-]+)(?:;[\w-]+=[^;,]*)*;base64,([A-Za-z0-9+/=\s]+))/gi
+  const candidates: Candidate[] = []
+
+  for (const [, , dataUri, contentType, base64] of withoutScriptBodies(html).matchAll(pattern)) {
+    if (dataUri.length < MIN_ASSET_BYTES) {
+      continue
+    }
+
+    candidates.push({
+      match: dataUri,
+      outsideScripts: true,
+      bytes: dataUri.length,
+      extract: (index) => {
+        const path = `asset-${index}.${getExtension(contentType)}`
+        return {
+          file: { path, data: decodeBase64(base64), contentType: contentType.toLowerCase() },
+          replacement: path,
+        }
+      },
+    })
+  }
+
+  return candidates
+}
+
+// Inline <script> and <style> elements
+function findInlineBlocks(html: string): Candidate[] {
+  const candidates: Candidate[] = []
+
+  for (const [element, attributes, body] of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+    const type = attributes.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1] ?? ""
+    if (/\bsrc\s*=/i.test(attributes) || INLINE_ONLY_SCRIPT_TYPES.test(type) || byteLength(body) < MIN_ASSET_BYTES) {
+      continue
+    }
+
+    candidates.push({
+      match: element,
+      bytes: byteLength(body),
+      extract: (index) => {
+        const path = `script-${index}.js`
+        return {
+          file: { path, data: encoder.encode(body), contentType: "application/javascript" },
+          replacement: `<script${attributes} src="${path}"></script>`,
+        }
+      },
+    })
+  }
+
+  for (const [element, attributes, body] of html.matchAll(/<style\b([^>]*)>([\s\S]*?)<\/style>/gi)) {
+    if (byteLength(body) < MIN_ASSET_BYTES) {
+      continue
+    }
+
+    const media = attributes.match(/\bmedia\s*=\s*(["'])(.*?)\1/i)?.[2]
+    candidates.push({
+      match: element,
+      bytes: byteLength(body),
+      extract: (index) => {
+        const path = `style-${index}.css`
+        return {
+          file: { path, data: encoder.encode(body), contentType: "text/css" },
+          replacement: `<link rel="stylesheet" href="${path}"${media ? ` media="${media}"` : ""}>`,
+        }
+      },
+    })
+  }
+
+  return candidates
+}
+
+function withoutScriptBodies(html: string): string {
+  return html.replace(SCRIPT_BODY, "$1$3")
+}
+
+// Applies change to everything but the bodies of inline scripts
+function outsideScriptBodies(html: string, change: (text: string) => string): string {
+  let result = ""
+  let last = 0
+  for (const { index, 1: openTag, 2: body } of html.matchAll(SCRIPT_BODY)) {
+    const bodyStart = index! + openTag.length
+    result += change(html.slice(last, bodyStart)) + body
+    last = bodyStart + body.length
+  }
+  return result + change(html.slice(last))
+}
+
+function byteLength(text: string): number {
+  return encoder.encode(text).byteLength
+}
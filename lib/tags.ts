@@ -0,0 +1,91 @@
+/**
+ * Default and user-defined Arweave tags attached to deployments
+ */
+import type { Tag } from "./providers"
+
+export const APP_NAME = "PermaWay"
+
+// Transaction holding the Universal Data License text
+export const UDL_LICENSE_ID = "yRj4a5KMctX_uOmKWCFJIjmY8DeJcusVk6-HzLiM_t8"
+
+// Tags left blank in the editor fall back to values read from the generated page
+const PAGE_DEFAULTS: Record<string, (metadata: PageMetadata) => string | undefined> = {
+  Title: (metadata) => metadata.title,
+  Description: (metadata) => metadata.description,
+}
+
+export interface PageMetadata {
+  title?: string
+  description?: string
+}
+
+export function createDefaultTags(): Tag[] {
+  return [
+    { name: "Content-Type", value: "text/html" },
+    { name: "App-Name", value: APP_NAME },
+    { name: "Title", value: "" },
+    { name: "Description", value: "" },
+  ]
+}
+
+export function createLicenseTags(): Tag[] {
+  return [{ name: "License", value: UDL_LICENSE_ID }]
+}
+
+/**
+ * Reads the <title> and meta description of an HTML document
+ */
+export function extractPageMetadata(html: string): PageMetadata {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+
+  const metaTag = html.match(/<meta[^>]+name=["']description["'][^>]*>/i)?.[0]
+  const description = metaTag?.match(/content=(["'])([\s\S]*?)\1/i)?.[2]
+
+  return {
+    title: title ? truncate(title, 150) : undefined,
+    description: description ? truncate(description, 300) : undefined,
+  }
+}
+
+/**
+ * Drops the tags that describe what the page says, for encrypted deployments whose tags would otherwise reveal it
+ */
+export function withoutPageMetadata(tags: Tag[]): Tag[] {
+  return tags.filter((tag) => !Object.keys(PAGE_DEFAULTS).includes(tag.name.trim()))
+}
+
+/**
+ * Fills blank defaults from the page, drops incomplete tags and guarantees a Content-Type
+ */
+export function resolveTags(tags: Tag[], html?: string, contentType = "text/html"): Tag[] {
+  const metadata = html ? extractPageMetadata(html) : {}
+
+  const resolved = tags
+    .map((tag) => {
+      const name = tag.name.trim()
+      const value = tag.value.trim() || PAGE_DEFAULTS[name]?.(metadata) || ""
+      return { name, value }
+    })
+    .filter((tag) => tag.name && tag.value)
+
+  if (!resolved.some((tag) => tag.name.toLowerCase() === "content-type")) {
+    resolved.unshift({ name: "Content-Type", value: contentType })
+  }
+
+  return resolved
+}
+
+/**
+ * Replaces any Content-Type in the list, for payloads whose type is known exactly
+ */
+export function withContentType(tags: Tag[], contentType: string): Tag[] {
+  return [
+    { name: "Content-Type", value: contentType },
+    ...tags.filter((tag) => tag.name.toLowerCase() !== "content-type"),
+  ]
+}
+
+function truncate(value: string, maxLength: number): string {
+  const text = value.replace(/\s+/g, " ").trim()
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
@@ -0,0 +1,90 @@
+/**
+ * Confirms a deployment landed: waits for the transaction to be mined, then checks every link serves the exact content we uploaded
+ */
+import { sha256Hex } from "./hash"
+import { getDeployProvider, type DeployProvider } from "./providers"
+
+export type LinkVerification = "pending" | "confirmed" | "mismatched"
+
+export interface VerifyOptions {
+  // Called whenever a link's verification state changes
+  onUpdate?: (link: string, status: LinkVerification) => void
+  signal?: AbortSignal
+  intervalMs?: number
+  timeoutMs?: number
+}
+
+const DEFAULT_INTERVAL_MS = 15_000
+// Blocks arrive roughly every two minutes, but confirmation can take much longer under load
+const DEFAULT_TIMEOUT_MS = 30 * 60_000
+
+export async function verifyDeployment(
+  id: string,
+  links: string[],
+  expectedContent: string | Uint8Array,
+  providerId: string,
+  options: VerifyOptions = {}
+): Promise<Record<string, LinkVerification>> {
+  const statuses: Record<string, LinkVerification> = Object.fromEntries(links.map((link) => [link, "pending"]))
+
+  const confirmed = await waitForConfirmation(getDeployProvider(providerId), id, options)
+  if (!confirmed) {
+    return statuses
+  }
+
+  const expectedHash = await sha256Hex(expectedContent)
+
+  await Promise.all(
+    links.map(async (link) => {
+      statuses[link] = await verifyLinkContent(link, expectedHash, options.signal)
+      options.onUpdate?.(link, statuses[link])
+    })
+  )
+
+  return statuses
+}
+
+async function waitForConfirmation(provider: DeployProvider, id: string, options: VerifyOptions): Promise<boolean> {
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+
+  while (Date.now() < deadline && !options.signal?.aborted) {
+    try {
+      const status = await provider.status(id)
+      if (status.state === "confirmed") {
+        return true
+      }
+    } catch (error) {
+      // Gateways hiccup; keep polling until the deadline
+      console.warn(`Status check for ${id} failed:`, error)
+    }
+
+    await wait(options.intervalMs ?? DEFAULT_INTERVAL_MS, options.signal)
+  }
+
+  return false
+}
+
+async function verifyLinkContent(link: string, expectedHash: string, signal?: AbortSignal): Promise<LinkVerification> {
+  try {
+    const response = await fetch(link, { signal, cache: "no-store" })
+    if (!response.ok) {
+      return "pending"
+    }
+
+    const content = new Uint8Array(await response.arrayBuffer())
+    return (await sha256Hex(content)) === expectedHash ? "confirmed" : "mismatched"
+  } catch (error) {
+    console.warn(`Could not fetch ${link} for verification:`, error)
+    return "pending"
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+}
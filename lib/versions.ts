@@ -0,0 +1,117 @@
+/**
+ * Version chains linking each deployment to the one it replaces, so every version of a site can be listed
+ */
+import { queryGateway, type GraphqlTransaction } from "./graphql"
+import type { Tag } from "./providers"
+
+export const PREVIOUS_VERSION_TAG = "Previous-Version"
+export const VERSION_TAG = "Version"
+
+// Guards against walking an unexpectedly long, or cyclic, chain
+const MAX_VERSIONS = 100
+
+export interface SiteVersion {
+  id: string
+  version: number
+  // Missing until the transaction is mined
+  timestamp: number | null
+  size: number
+}
+
+const TRANSACTION_FIELDS = `
+  id
+  owner { address }
+  tags { name value }
+  data { size }
+  block { height timestamp }
+`
+
+const VERSION_QUERY = `
+  query Version($id: ID!) {
+    transaction(id: $id) { ${TRANSACTION_FIELDS} }
+  }
+`
+
+const NEXT_VERSION_QUERY = `
+  query NextVersion($previous: String!, $owners: [String!]) {
+    transactions(tags: [{ name: "${PREVIOUS_VERSION_TAG}", values: [$previous] }], owners: $owners, first: 1, sort: HEIGHT_DESC) {
+      edges { node { ${TRANSACTION_FIELDS} } }
+    }
+  }
+`
+
+/**
+ * Tags marking a deployment as the next version of an earlier one
+ */
+export async function createVersionTags(previousId: string): Promise<Tag[]> {
+  const previous = await fetchVersion(previousId)
+  if (!previous) {
+    throw new Error(`Previous version ${previousId} was not found. It may not be indexed by the gateway yet.`)
+  }
+
+  return [
+    { name: PREVIOUS_VERSION_TAG, value: previousId },
+    { name: VERSION_TAG, value: String(readVersionNumber(previous) + 1) },
+  ]
+}
+
+/**
+ * Lists every version in the chain the given deployment belongs to, newest first.
+ * Older versions follow Previous-Version tags; newer ones are found by searching for uploads that point back,
+ * from the same owner, so nobody else can append to the chain.
+ */
+export async function findVersionHistory(id: string): Promise<SiteVersion[]> {
+  const start = await fetchVersion(id)
+  if (!start) {
+    throw new Error(`Transaction ${id} was not found`)
+  }
+
+  // Newest first: newer versions go on the front, older ones on the back
+  const chain = [start]
+  const seen = new Set([start.id])
+
+  let previousId = readTag(start, PREVIOUS_VERSION_TAG)
+  while (previousId && !seen.has(previousId) && chain.length < MAX_VERSIONS) {
+    const previous = await fetchVersion(previousId)
+    // A missing link ends the walk; the versions found so far are still worth showing
+    if (!previous) break
+    chain.push(previous)
+    seen.add(previous.id)
+    previousId = readTag(previous, PREVIOUS_VERSION_TAG)
+  }
+
+  let latest = start
+  while (chain.length < MAX_VERSIONS) {
+    const data = await queryGateway<{ transactions: { edges: { node: GraphqlTransaction }[] } }>(NEXT_VERSION_QUERY, {
+      previous: latest.id,
+      owners: [start.owner.address],
+    })
+    const next = data.transactions.edges[0]?.node
+    if (!next || seen.has(next.id)) break
+    chain.unshift(next)
+    seen.add(next.id)
+    latest = next
+  }
+
+  return chain.map((transaction) => ({
+    id: transaction.id,
+    version: readVersionNumber(transaction),
+    timestamp: transaction.block?.timestamp ?? null,
+    size: Number(transaction.data.size),
+  }))
+}
+
+async function fetchVersion(id: string): Promise<GraphqlTransaction | null> {
+  const data = await queryGateway<{ transaction: GraphqlTransaction | null }>(VERSION_QUERY, { id })
+  return data.transaction
+}
+
+// Deployments made before versioning count as the first version
+function readVersionNumber(transaction: GraphqlTransaction): number {
+  const version = Number(readTag(transaction, VERSION_TAG))
+  return Number.isInteger(version) && version > 0 ? version : 1
+}
+
+function readTag(transaction: GraphqlTransaction, name: string): string | undefined {
+  return transaction.tags.find((tag) => tag.name === name)?.value
+}
@@ -1,272 +1,695 @@
+import type JSZip from "jszip"
+import { defaultTreeAdapter, html as htmlSpec, parse, serialize, type DefaultTreeAdapterTypes } from "parse5"
+import { encodeBase64 } from "./base64"
+import { INLINE_ASSET_MAX_KB, ZIP_MAX_EXTRACTED_MB } from "./config"
+import { ParseError, PermawayError } from "./errors"
+import { getContentType } from "./mime"
+
+type ParsedNode = DefaultTreeAdapterTypes.ParentNode
+type ParsedElement = DefaultTreeAdapterTypes.Element
+
+// Binary file read from the archive, ready to inline as a data URI
+interface BinaryAsset {
+  contentType: string
+  // Null when the file is over the inline size cap, so its bytes were dropped as soon as they were read
+  base64: string | null
+}
+
+// Elements whose src, href, poster or srcset load an image, icon or media file
+const MEDIA_ELEMENTS = new Set(["img", "source", "video", "audio", "input", "link"])
+
+// Layout for the page listing an archive that has no HTML of its own
+const BASIC_PAGE_STYLES = `body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.6; }
+.container { max-width: 800px; margin: 0 auto; }
+.file-list { background: #f5f5f5; padding: 20px; border-radius: 8px; }
+.file-item { margin: 5px 0; }`
+
+// Elements whose text is shown or run exactly as written
+const PRESERVED_TEXT_ELEMENTS = new Set(["pre", "textarea", "script", "listing", "xmp", "plaintext"])
+
+// A zip archive converted to a single page, with the references that couldn't be resolved
+export interface ProcessedZip {
+  html: string
+  warnings: string[]
+}
+
 /**
  * Processes a zip file and converts it to a single HTML file
  */
-export async function processZipFile(file: File): Promise<string> {
+export async function processZipFile(file: File): Promise<ProcessedZip> {
   try {
     // Import JSZip dynamically to avoid server-side issues
     const JSZip = (await import("jszip")).default
 
-    // Read the zip file
-    const zip = await JSZip.loadAsync(file)
+    // Read the zip file. JSZip cannot read a File on the server, so hand it the bytes
+    const zip = await JSZip.loadAsync(await file.arrayBuffer())
 
     // Extract files from the zip
     const files: Record<string, string> = {}
-    const promises: Promise<void>[] = []
-
-    zip.forEach((path, zipEntry) => {
-      if (!zipEntry.dir) {
-        // Only process text files and common web assets
-        const isTextFile = /\.(html|htm|css|js|json|txt|md|xml|svg|ts|tsx|jsx|vue|php)$/i.test(path)
-        
-        if (isTextFile) {
-          const promise = zipEntry
-            .async("text")
-            .then((content) => {
-              files[path] = content
-            })
-            .catch((error) => {
-              console.warn(`Failed to read file ${path}:`, error)
-            })
-          promises.push(promise)
-        }
+    const assets: Record<string, BinaryAsset> = {}
+    const decoder = new TextDecoder()
+
+    // Only process text files and common web assets
+    const isTextFile = (path: string) => /\.(html|htm|css|js|json|txt|md|xml|svg|ts|tsx|jsx|vue|php)$/i.test(path)
+    const entries = await readZipEntries(
+      zip,
+      (path) => isTextFile(path) || getContentType(path) !== "application/octet-stream",
+      "the repository"
+    )
+
+    entries.forEach(({ path, data }) => {
+      if (isTextFile(path)) {
+        files[path] = decoder.decode(data)
+      } else {
+        // Images, fonts and media are inlined where the page references them. Larger ones are reported once
+        // the page is built, since only a reference tells whether they matter.
+        const inlinable = data.byteLength <= INLINE_ASSET_MAX_KB * 1024
+        assets[path] = { contentType: getContentType(path), base64: inlinable ? encodeBase64(data) : null }
       }
     })
 
-    await Promise.all(promises)
-
     if (Object.keys(files).length === 0) {
-      throw new Error("No processable files found in the repository")
+      throw new ParseError("the repository", "No processable files found in the repository")
     }
 
+    // SVGs are read as text, but references to them are inlined like any other image
+    Object.entries(files).forEach(([path, content]) => {
+      if (getContentType(path) === "image/svg+xml") {
+        assets[path] = { contentType: "image/svg+xml", base64: encodeBase64(new TextEncoder().encode(content)) }
+      }
+    })
+
     // Process the extracted files and convert to a single HTML file
-    return await convertToSingleHtml(files)
+    return await convertToSingleHtml(files, assets)
   } catch (error) {
     console.error("Error processing zip file:", error)
-    if (error instanceof Error) {
-      throw new Error(`Failed to process repository: ${error.message}`)
+    if (error instanceof PermawayError) {
+      throw error
     }
-    throw new Error("Failed to process repository. Please check the repository and try again.")
+    throw new ParseError(
+      "the repository",
+      error instanceof Error ? error.message : "Please check the repository and try again.",
+      error
+    )
   }
 }
 
-async function convertToSingleHtml(files: Record<string, string>): Promise<string> {
-  // Find the main HTML file
-  const htmlFiles = Object.keys(files).filter((path) => 
-    path.endsWith(".html") && !path.includes("node_modules")
-  )
-  
-  const mainHtmlFile =
-    htmlFiles.find(
-      (path) => 
-        path.endsWith("index.html") || 
-        path.match(/\/index\.html$/) || 
-        path.toLowerCase().includes("index")
-    ) || htmlFiles[0]
+export interface SiteFile {
+  // Path relative to the site root, using forward slashes
+  path: string
+  data: Uint8Array
+  contentType: string
+}
 
-  if (!mainHtmlFile) {
-    // If no HTML file found, create a basic one
-    return createBasicHtml(files)
+/**
+ * Extracts every file of a zip archive as-is, with paths relative to the site root
+ */
+export async function extractSiteFiles(file: File): Promise<SiteFile[]> {
+  try {
+    const JSZip = (await import("jszip")).default
+    const zip = await JSZip.loadAsync(await file.arrayBuffer())
+
+    const entries = await readZipEntries(zip, (path) => !/(^|\/)(node_modules|\.git)\//.test(path), "the zip file")
+
+    const root = findSiteRoot(entries.map((entry) => entry.path))
+    const files = entries
+      .filter((entry) => entry.path.startsWith(root))
+      .map((entry) => {
+        const path = entry.path.slice(root.length)
+        return { path, data: entry.data, contentType: getContentType(path) }
+      })
+
+    if (!files.some((siteFile) => siteFile.contentType === "text/html")) {
+      throw new ParseError("the zip file", "No HTML files found in the archive")
+    }
+
+    return files
+  } catch (error) {
+    console.error("Error extracting zip file:", error)
+    if (error instanceof PermawayError) {
+      throw error
+    }
+    throw new ParseError("the zip file", error instanceof Error ? error.message : "Unknown error", error)
   }
+}
 
-  const htmlContent = files[mainHtmlFile]
+// Reads the file entries for which include returns true, one at a time, and stops with an error once their
+// decompressed bytes pass ZIP_MAX_EXTRACTED_MB. The sizes an archive declares can't be trusted, so only the
+// bytes actually read count.
+async function readZipEntries(
+  zip: JSZip,
+  include: (path: string) => boolean,
+  source: string
+): Promise<{ path: string; data: Uint8Array }[]> {
+  const maxBytes = ZIP_MAX_EXTRACTED_MB * 1024 * 1024
+  const entries: { path: string; data: Uint8Array }[] = []
+  let totalBytes = 0
+
+  for (const zipEntry of Object.values(zip.files)) {
+    if (zipEntry.dir || !include(zipEntry.name)) {
+      continue
+    }
 
-  // Parse the HTML to extract head and body content
-  const headMatch = htmlContent.match(/<head[^>]*>([\s\S]*?)<\/head>/i)
-  const bodyMatch = htmlContent.match(/<body[^>]*>([\s\S]*?)<\/body>/i)
+    let data: Uint8Array
+    try {
+      data = await zipEntry.async("uint8array")
+    } catch (error) {
+      console.warn(`Failed to read file ${zipEntry.name}:`, error)
+      continue
+    }
 
-  let headContent = headMatch ? headMatch[1] : ""
-  let bodyContent = bodyMatch ? bodyMatch[1] : htmlContent
+    totalBytes += data.byteLength
+    if (totalBytes > maxBytes) {
+      throw new ParseError(source, `The archive expands to more than ${ZIP_MAX_EXTRACTED_MB}MB`)
+    }
+    entries.push({ path: zipEntry.name, data })
+  }
 
-  // Process and inline CSS
-  headContent = await inlineCssInHtml(headContent, files)
-  bodyContent = await inlineCssInHtml(bodyContent, files)
+  return entries
+}
 
-  // Process and inline JavaScript
-  headContent = await inlineJsInHtml(headContent, files)
-  bodyContent = await inlineJsInHtml(bodyContent, files)
+// The site root is the shallowest directory holding an index.html, so that
+// archives wrapped in a top-level folder (as GitHub produces) still map to "/"
+function findSiteRoot(paths: string[]): string {
+  const indexFiles = paths
+    .filter((path) => /(^|\/)index\.html?$/i.test(path))
+    .sort((a, b) => a.split("/").length - b.split("/").length)
 
-  // Build the final HTML
-  let finalHtml = '<!DOCTYPE html>\n<html lang="en">\n<head>\n'
-  finalHtml += '  <meta charset="UTF-8">\n'
-  finalHtml += '  <meta name="viewport" content="width=device-width, initial-scale=1.0">\n'
+  if (indexFiles.length > 0) {
+    return indexFiles[0].slice(0, indexFiles[0].lastIndexOf("/") + 1)
+  }
 
-  // Extract title if it exists
-  const titleMatch = htmlContent.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
-  if (titleMatch) {
-    finalHtml += `  <title>${titleMatch[1]}</title>\n`
-  } else {
-    finalHtml += "  <title>Deployed Project</title>\n"
+  // Otherwise strip the directory shared by every entry
+  const firstSegment = paths[0]?.split("/")[0]
+  if (firstSegment && paths.every((path) => path.startsWith(`${firstSegment}/`))) {
+    return `${firstSegment}/`
   }
 
-  // Add any remaining CSS files as inline styles
-  finalHtml += "  <style>\n"
-  Object.entries(files).forEach(([path, content]) => {
-    if (path.endsWith(".css") && 
-        !path.includes("node_modules") && 
-        !headContent.includes(content) && 
-        !bodyContent.includes(content)) {
-      finalHtml += `/* ${path} */\n${content}\n\n`
+  return ""
+}
+
+async function convertToSingleHtml(
+  files: Record<string, string>,
+  assets: Record<string, BinaryAsset>
+): Promise<ProcessedZip> {
+  // The main page is the index file the site root was found from, as for multi-file deploys; other pages are a fallback
+  const root = findSiteRoot(Object.keys(files))
+  const htmlFiles = Object.keys(files).filter((path) => /\.html?$/i.test(path) && !path.includes("node_modules"))
+  const rootIndex = (name: string) =>
+    htmlFiles.find((path) => path.startsWith(root) && path.slice(root.length).toLowerCase() === name)
+  const mainHtmlFile = rootIndex("index.html") || rootIndex("index.htm") || htmlFiles[0]
+
+  if (!mainHtmlFile) {
+    // If no HTML file found, create a basic one
+    return { html: createBasicHtml(files), warnings: [] }
+  }
+
+  const warnings: string[] = []
+  const context: PageContext = {
+    page: mainHtmlFile,
+    files,
+    assets,
+    inliner: createAssetInliner(assets, warnings),
+    root,
+    inlined: new Set(),
+    warnings,
+  }
+
+  // The parser always produces <html>, <head> and <body>, whatever the page left out
+  const document = parse(files[mainHtmlFile])
+  const [html] = findElements(document, "html")
+  const [head] = findElements(html, "head")
+  const body = findElements(html, "body")[0] ?? html
+
+  // Scripts that run once the page has been parsed, in the order they were declared
+  const afterParsing: ParsedElement[] = []
+
+  // Collected up front, so the elements created while inlining aren't rewritten again
+  for (const element of findElements(document)) {
+    if (element.tagName === "link" && isStylesheetLink(element)) {
+      inlineStylesheetLink(element, context)
+    } else if (element.tagName === "script") {
+      if (runsAfterParsing(element)) {
+        afterParsing.push(element)
+      }
+      inlineScript(element, context)
+    } else if (element.tagName === "style") {
+      setText(element, inlineCssUrls(getText(element), context))
+    } else if (MEDIA_ELEMENTS.has(element.tagName)) {
+      inlineMediaReferences(element, context)
     }
-  })
-  finalHtml += "  </style>\n"
 
-  // Add processed head content (without html, head, body tags)
-  const cleanHeadContent = headContent
-    .replace(/<\/?html[^>]*>/gi, "")
-    .replace(/<\/?head[^>]*>/gi, "")
-    .replace(/<\/?body[^>]*>/gi, "")
+    const style = getAttribute(element, "style")
+    if (style) {
+      setAttribute(element, "style", inlineCssUrls(style, context))
+    }
+  }
 
-  finalHtml += cleanHeadContent + "\n"
-  finalHtml += "</head>\n<body>\n"
+  // An inlined script runs where it stands, so deferred scripts and modules move to the end of the body,
+  // where they still run after the page has been parsed and in the same order
+  afterParsing.forEach((script) => {
+    defaultTreeAdapter.detachNode(script)
+    defaultTreeAdapter.appendChild(body, script)
+  })
 
-  // Add processed body content
-  const cleanBodyContent = bodyContent
-    .replace(/<\/?html[^>]*>/gi, "")
-    .replace(/<\/?head[^>]*>/gi, "")
-    .replace(/<\/?body[^>]*>/gi, "")
+  const charset = ensurePageMetadata(html, head)
 
-  finalHtml += cleanBodyContent + "\n"
+  // Add any remaining CSS files as inline styles, after the charset so it stays within the first bytes of the page
+  const remainingCss = Object.keys(files)
+    .filter((path) => path.endsWith(".css") && !path.includes("node_modules") && !context.inlined.has(path))
+    .map((path) => inlineStylesheet(path, context))
+  if (remainingCss.length > 0) {
+    insertAfter(charset, createElement("style", {}, escapeStyle(remainingCss.join("\n"))))
+  }
 
   // Add any remaining JavaScript files
-  finalHtml += "\n<script>\n"
-  Object.entries(files).forEach(([path, content]) => {
-    if (
-      path.endsWith(".js") &&
-      !path.includes("node_modules") &&
-      !path.includes(".min.") && // Skip minified files to reduce size
-      !headContent.includes(content) &&
-      !bodyContent.includes(content)
-    ) {
-      finalHtml += `// ${path}\n${content}\n\n`
+  const remainingJs = Object.entries(files)
+    .filter(
+      ([path]) =>
+        path.endsWith(".js") &&
+        !path.includes("node_modules") &&
+        !path.includes(".min.") && // Skip minified files to reduce size
+        !context.inlined.has(path)
+    )
+    .map(([, content]) => escapeScript(content))
+  if (remainingJs.length > 0) {
+    defaultTreeAdapter.appendChild(body, createElement("script", {}, remainingJs.join("\n;\n")))
+  }
+
+  return { html: serializeDocument(document), warnings: context.warnings }
+}
+
+// Keeps the page's own <html> attributes, meta tags and title, filling in the ones every deployment needs.
+// Returns the charset declaration, which is always the first element of <head>
+function ensurePageMetadata(html: ParsedElement, head: ParsedElement): ParsedElement {
+  if (!getAttribute(html, "lang")) {
+    setAttribute(html, "lang", "en")
+  }
+
+  const metas = findElements(head, "meta")
+
+  // The archive was read as UTF-8, so that's what the page is now, whatever it declared
+  const charset = metas.find((meta) => getAttribute(meta, "charset") !== undefined) ?? createElement("meta")
+  setAttribute(charset, "charset", "UTF-8")
+  if (charset.parentNode) {
+    defaultTreeAdapter.detachNode(charset)
+  }
+  insertFirst(head, charset)
+
+  if (!metas.some((meta) => getAttribute(meta, "name")?.toLowerCase() === "viewport")) {
+    insertAfter(charset, createElement("meta", { name: "viewport", content: "width=device-width, initial-scale=1.0" }))
+  }
+
+  if (findElements(head, "title").length === 0) {
+    defaultTreeAdapter.appendChild(head, createElement("title", {}, "Deployed Project"))
+  }
+
+  return charset
+}
+
+function isStylesheetLink(link: ParsedElement): boolean {
+  return (getAttribute(link, "rel") ?? "").toLowerCase().split(/\s+/).includes("stylesheet")
+}
+
+// Replaces a stylesheet link with a <style> holding the sheet, keeping its media query
+function inlineStylesheetLink(link: ParsedElement, context: PageContext): void {
+  const href = getAttribute(link, "href")?.trim()
+  const cssFile = href && findReferencedFile(href, context.page, context.files, context)
+  if (!cssFile || !link.parentNode) {
+    return
+  }
+
+  const media = getAttribute(link, "media")
+  const style = createElement("style", media ? { media } : {}, escapeStyle(inlineStylesheet(cssFile, context)))
+  defaultTreeAdapter.insertBefore(link.parentNode, style, link)
+  defaultTreeAdapter.detachNode(link)
+}
+
+// Classic scripts with defer and non-async modules wait for the page to be parsed, wherever they appear
+function runsAfterParsing(script: ParsedElement): boolean {
+  if (getAttribute(script, "async") !== undefined) {
+    return false
+  }
+  if (getAttribute(script, "type")?.trim().toLowerCase() === "module") {
+    return true
+  }
+  return getAttribute(script, "src") !== undefined && getAttribute(script, "defer") !== undefined
+}
+
+// Replaces a script's src with the file's contents, keeping its other attributes such as type
+function inlineScript(script: ParsedElement, context: PageContext): void {
+  const src = getAttribute(script, "src")?.trim()
+  // External scripts resolve to nothing and stay as they are
+  const jsFile = src && findReferencedFile(src, context.page, context.files, context)
+  if (!jsFile) {
+    return
+  }
+
+  // These only apply to scripts loaded from a URL
+  for (const name of ["src", "defer", "async", "integrity", "crossorigin"]) {
+    removeAttribute(script, name)
+  }
+  setText(script, escapeScript(context.files[jsFile]))
+  context.inlined.add(jsFile)
+}
+
+// An inline script ends at the first "</script", even inside a string
+function escapeScript(content: string): string {
+  return content.replace(/<\/script/gi, "<\\/script")
+}
+
+// Likewise for "</style"; CSS reads the escaped slash as a plain one
+function escapeStyle(content: string): string {
+  return content.replace(/<\/style/gi, "<\\/style")
+}
+
+// Everything needed to inline the page's stylesheets, scripts and assets
+interface PageContext {
+  // The HTML file being converted, which page-relative references resolve from
+  page: string
+  files: Record<string, string>
+  assets: Record<string, BinaryAsset>
+  inliner: AssetInliner
+  // Directory root-relative references resolve from
+  root: string
+  // Stylesheets and scripts already inlined, so they aren't appended again
+  inlined: Set<string>
+  // References that couldn't be resolved, for the user to fix
+  warnings: string[]
+}
+
+/**
+ * Returns a stylesheet's text with its @import statements replaced by the imported sheets, recursively,
+ * and every url() resolved relative to the sheet itself. Assets are embedded; one too large to embed keeps its
+ * original reference, which the inliner reports, since the single-file deploy has nothing for it to point at.
+ */
+function inlineStylesheet(path: string, context: PageContext, importChain: string[] = []): string {
+  const { files, inliner, root, inlined } = context
+  const chain = [...importChain, path]
+  inlined.add(path)
+
+  // Imports that can't be inlined must stay at the top of the sheet to keep working
+  const externalImports: string[] = []
+
+  const withImports = files[path].replace(
+    /@import\s+(?:url\(\s*(["']?)([^"')]+)\1\s*\)|(["'])([^"']+)\3)\s*([^;]*);/gi,
+    (statement, _urlQuote, urlReference, _stringQuote, stringReference, media: string) => {
+      const reference: string = urlReference ?? stringReference
+      if (!resolveZipPath(path, reference, root)) {
+        externalImports.push(statement)
+        return ""
+      }
+
+      const imported = findReferencedFile(reference, path, files, context)
+      if (!imported) {
+        return ""
+      }
+
+      if (chain.includes(imported)) {
+        console.warn(`Skipping circular @import of ${imported} in ${path}`)
+        return ""
+      }
+
+      const css = inlineStylesheet(imported, context, chain)
+      return media.trim() ? `@media ${media.trim()} {\n${css}\n}` : css
     }
-  })
-  finalHtml += "</script>\n"
+  )
 
-  finalHtml += "</body>\n</html>"
+  const withUrls = withImports.replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (match, quote, reference: string) => {
+    const target = findReferencedFile(reference.trim(), path, context.assets, context)
+    if (!target) {
+      return match
+    }
+
+    const embedded = inliner.embed(target)
+    return embedded ? `url(${quote}${embedded}${quote})` : match
+  })
 
-  return optimizeHtml(finalHtml)
+  return [...externalImports, withUrls].join("\n")
 }
 
-async function inlineCssInHtml(htmlContent: string, files: Record<string, string>): Promise<string> {
-  let processedHtml = htmlContent
+/**
+ * Resolves a reference the way a browser would from the file at fromPath.
+ * Root-relative references start at the site root. Returns null for external URLs, data URIs and fragments.
+ */
+function resolveZipPath(fromPath: string, reference: string, root: string): string | null {
+  if (!reference || /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference)) {
+    return null
+  }
 
-  // Find all CSS link tags
-  const linkRegex = /<link[^>]*rel=["']stylesheet["'][^>]*href=["']([^"']+)["'][^>]*>/gi
-  let match
+  const base = "https://zip.invalid/"
+  const url = reference.startsWith("/") ? new URL(`.${reference}`, base + root) : new URL(reference, base + fromPath)
 
-  while ((match = linkRegex.exec(htmlContent)) !== null) {
-    const href = match[1]
-    const fullMatch = match[0]
+  try {
+    return decodeURIComponent(url.pathname.slice(1))
+  } catch {
+    return url.pathname.slice(1)
+  }
+}
 
-    // Find the corresponding CSS file
-    const cssFile = Object.keys(files).find((path) => {
-      const normalizedPath = path.replace(/^[^/]*\//, "") // Remove first directory
-      return normalizedPath === href || 
-             path.endsWith(href) || 
-             path.includes(href.replace("./", "")) ||
-             path.includes(href.replace("/", ""))
-    })
+/**
+ * Finds the archive file a reference points to. A reference with no exact match is reported rather than
+ * guessed at, noting files that differ only in case, since servers disagree on whether those match.
+ * Returns null for external references too, which need no file.
+ */
+function findReferencedFile(
+  reference: string,
+  fromPath: string,
+  candidates: Record<string, unknown>,
+  context: PageContext,
+  { quiet = false } = {}
+): string | null {
+  const target = resolveZipPath(fromPath, reference, context.root)
+  if (!target || candidates[target] !== undefined) {
+    return target
+  }
 
-    if (cssFile && files[cssFile]) {
-      // Replace the link tag with inline style
-      const inlineStyle = `<style>\n/* ${href} */\n${files[cssFile]}\n</style>`
-      processedHtml = processedHtml.replace(fullMatch, inlineStyle)
+  if (!quiet) {
+    const caseMatches = Object.keys(candidates).filter((path) => path.toLowerCase() === target.toLowerCase())
+    const warning =
+      caseMatches.length > 1
+        ? `"${reference}" in ${fromPath} is ambiguous: ${caseMatches.join(", ")} differ from ${target} only in case`
+        : caseMatches.length === 1
+          ? `"${reference}" in ${fromPath} was not found: ${target} is missing, but ${caseMatches[0]} differs only in case`
+          : `"${reference}" in ${fromPath} was not found: ${target} is missing from the archive`
+
+    if (!context.warnings.includes(warning)) {
+      console.warn(warning)
+      context.warnings.push(warning)
     }
   }
 
-  return processedHtml
+  return null
 }
 
-async function inlineJsInHtml(htmlContent: string, files: Record<string, string>): Promise<string> {
-  let processedHtml = htmlContent
+interface AssetInliner {
+  // Data URI of the file, or null when the file is over the size cap
+  embed(path: string): string | null
+}
 
-  // Find all script tags with src
-  const scriptRegex = /<script[^>]*src=["']([^"']+)["'][^>]*><\/script>/gi
-  let match
+function createAssetInliner(assets: Record<string, BinaryAsset>, warnings: string[]): AssetInliner {
+  const maxBase64Length = Math.ceil((INLINE_ASSET_MAX_KB * 1024 * 4) / 3)
+  // Each file is encoded, or reported as too large, once however many times it's referenced
+  const dataUris = new Map<string, string>()
+  const oversized = new Set<string>()
+
+  return {
+    embed(path) {
+      const { contentType, base64 } = assets[path]
+      if (base64 === null || base64.length > maxBase64Length) {
+        if (!oversized.has(path)) {
+          const warning = `${path} was not inlined: it is larger than the ${INLINE_ASSET_MAX_KB}KB limit`
+          console.warn(warning)
+          warnings.push(warning)
+          oversized.add(path)
+        }
+        return null
+      }
 
-  while ((match = scriptRegex.exec(htmlContent)) !== null) {
-    const src = match[1]
-    const fullMatch = match[0]
+      if (!dataUris.has(path)) {
+        dataUris.set(path, `data:${contentType};base64,${base64}`)
+      }
+      return dataUris.get(path)!
+    },
+  }
+}
 
-    // Skip external scripts (http/https URLs)
-    if (src.startsWith('http://') || src.startsWith('https://') || src.startsWith('//')) {
-      continue
+/**
+ * Points an element's image, icon and media references at data URIs of the matching archive files.
+ * Files over the size cap, and references with no matching file, are left as they are.
+ */
+function inlineMediaReferences(element: ParsedElement, context: PageContext): void {
+  // Links are also used for canonical URLs, manifests and the like, which may not be in the archive
+  const quiet = element.tagName === "link" && !/icon/i.test(getAttribute(element, "rel") ?? "")
+
+  for (const name of ["src", "href", "poster"]) {
+    const value = getAttribute(element, name)
+    if (value) {
+      setAttribute(element, name, inlineAsset(value.trim(), context, { quiet }))
     }
+  }
 
-    // Find the corresponding JS file
-    const jsFile = Object.keys(files).find((path) => {
-      const normalizedPath = path.replace(/^[^/]*\//, "") // Remove first directory
-      return normalizedPath === src || 
-             path.endsWith(src) || 
-             path.includes(src.replace("./", "")) ||
-             path.includes(src.replace("/", ""))
+  const srcset = getAttribute(element, "srcset")
+  if (srcset) {
+    const candidates = srcset.split(",").map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/)
+      return [inlineAsset(url, context), ...descriptors].join(" ")
     })
-
-    if (jsFile && files[jsFile]) {
-      // Replace the script tag with inline script
-      const inlineScript = `<script>\n// ${src}\n${files[jsFile]}\n</script>`
-      processedHtml = processedHtml.replace(fullMatch, inlineScript)
-    }
+    setAttribute(element, "srcset", candidates.join(", "))
   }
+}
+
+// url() in the page's own <style> blocks and style attributes, which resolve relative to the page
+function inlineCssUrls(css: string, context: PageContext): string {
+  return css.replace(
+    /url\(\s*(["']?)([^"')]+)\1\s*\)/gi,
+    (_match, quote, value: string) => `url(${quote}${inlineAsset(value.trim(), context)}${quote})`
+  )
+}
 
-  return processedHtml
+function inlineAsset(reference: string, context: PageContext, options?: { quiet: boolean }): string {
+  const path = findReferencedFile(reference, context.page, context.assets, context, options)
+  return (path && context.inliner.embed(path)) || reference
 }
 
+// Lists the archive's files, with its stylesheets and scripts inlined, when it has no page of its own
 function createBasicHtml(files: Record<string, string>): string {
-  let html = '<!DOCTYPE html>\n<html lang="en">\n<head>\n'
-  html += '  <meta charset="UTF-8">\n'
-  html += '  <meta name="viewport" content="width=device-width, initial-scale=1.0">\n'
-  html += "  <title>Deployed Project</title>\n"
-
-  // Add CSS
-  html += "  <style>\n"
-  html += "    body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.6; }\n"
-  html += "    .container { max-width: 800px; margin: 0 auto; }\n"
-  html += "    .file-list { background: #f5f5f5; padding: 20px; border-radius: 8px; }\n"
-  html += "    .file-item { margin: 5px 0; }\n"
-  
-  Object.entries(files).forEach(([path, content]) => {
-    if (path.endsWith(".css")) {
-      html += `/* ${path} */\n${content}\n\n`
-    }
-  })
-  html += "  </style>\n</head>\n<body>\n"
+  // The parser always produces <html>, <head> and <body>, even from nothing
+  const document = parse("")
+  const [html] = findElements(document, "html")
+  const [head] = findElements(html, "head")
+  const [body] = findElements(html, "body")
+  ensurePageMetadata(html, head)
+
+  const css = Object.entries(files)
+    .filter(([path]) => path.endsWith(".css"))
+    .map(([path, content]) => `/* ${path} */\n${content}`)
+  const styles = [BASIC_PAGE_STYLES, ...css].join("\n\n")
+  defaultTreeAdapter.appendChild(head, createElement("style", {}, escapeStyle(styles)))
 
   // Add a basic structure showing the repository contents
-  html += '  <div class="container">\n'
-  html += "    <h1>Repository Deployed Successfully!</h1>\n"
-  html += "    <p>Your repository has been processed and deployed to Arweave.</p>\n"
-  
-  // Show file structure
-  html += '    <div class="file-list">\n'
-  html += "      <h3>Repository Contents:</h3>\n"
+  const fileList = createElement("div", { class: "file-list" })
+  defaultTreeAdapter.appendChild(fileList, createElement("h3", {}, "Repository Contents:"))
   Object.keys(files).forEach((path) => {
-    html += `      <div class="file-item">📄 ${path}</div>\n`
+    defaultTreeAdapter.appendChild(fileList, createElement("div", { class: "file-item" }, `📄 ${path}`))
   })
-  html += "    </div>\n"
-  
-  html += "  </div>\n\n"
-
-  // Add JavaScript
-  html += "  <script>\n"
-  html += "    console.log('Repository deployed successfully!');\n"
-  Object.entries(files).forEach(([path, content]) => {
-    if (path.endsWith(".js") && !path.includes("node_modules")) {
-      html += `// ${path}\n${content}\n\n`
+
+  const container = createElement("div", { class: "container" })
+  defaultTreeAdapter.appendChild(container, createElement("h1", {}, "Repository Deployed Successfully!"))
+  defaultTreeAdapter.appendChild(
+    container,
+    createElement("p", {}, "Your repository has been processed and deployed to Arweave.")
+  )
+  defaultTreeAdapter.appendChild(container, fileList)
+  defaultTreeAdapter.appendChild(body, container)
+
+  const js = Object.entries(files)
+    .filter(([path]) => path.endsWith(".js") && !path.includes("node_modules"))
+    .map(([path, content]) => `// ${path}\n${content}`)
+  const script = ["console.log('Repository deployed successfully!');", ...js].join("\n\n")
+  defaultTreeAdapter.appendChild(body, createElement("script", {}, escapeScript(script)))
+
+  return serializeDocument(document)
+}
+
+function serializeDocument(document: DefaultTreeAdapterTypes.Document): string {
+  optimizeHtml(document)
+  const html = serialize(document)
+  return document.childNodes.some((node) => defaultTreeAdapter.isDocumentTypeNode(node)) ? html : `<!DOCTYPE html>${html}`
+}
+
+/**
+ * Basic optimization: removes comments and collapses whitespace. Scripts are left as written, since
+ * their comments and line breaks can't be told apart from strings and statement ends without parsing them too.
+ */
+function optimizeHtml(parent: ParsedNode): void {
+  // Whitespace between the elements of <head> is never rendered
+  const dropsWhitespace = parent.nodeName === "#document" || parent.nodeName === "html" || parent.nodeName === "head"
+  parent.childNodes = parent.childNodes.filter(
+    (node) =>
+      !defaultTreeAdapter.isCommentNode(node) &&
+      !(dropsWhitespace && defaultTreeAdapter.isTextNode(node) && !node.value.trim())
+  )
+
+  parent.childNodes.forEach((node) => {
+    if (defaultTreeAdapter.isTextNode(node)) {
+      node.value = node.value.replace(/\s+/g, " ")
+    } else if (defaultTreeAdapter.isElementNode(node)) {
+      if (node.tagName === "style") {
+        setText(node, getText(node).replace(/\/\*[\s\S]*?\*\//g, "").replace(/\s+/g, " ").trim())
+      } else if (!PRESERVED_TEXT_ELEMENTS.has(node.tagName)) {
+        optimizeHtml(node)
+      }
+    }
+  })
+}
+
+// Every element under the node in document order, optionally only those with the given tag
+function findElements(parent: ParsedNode, tagName?: string): ParsedElement[] {
+  return parent.childNodes.flatMap((node) => {
+    if (!defaultTreeAdapter.isElementNode(node)) {
+      return []
     }
+    const descendants = findElements(node, tagName)
+    return !tagName || node.tagName === tagName ? [node, ...descendants] : descendants
   })
-  html += "  </script>\n</body>\n</html>"
+}
+
+function createElement(tagName: string, attributes: Record<string, string> = {}, text?: string): ParsedElement {
+  const element = defaultTreeAdapter.createElement(
+    tagName,
+    htmlSpec.NS.HTML,
+    Object.entries(attributes).map(([name, value]) => ({ name, value }))
+  )
+  if (text) {
+    defaultTreeAdapter.insertText(element, text)
+  }
+  return element
+}
+
+function getAttribute(element: ParsedElement, name: string): string | undefined {
+  return element.attrs.find((attribute) => attribute.name === name)?.value
+}
+
+function setAttribute(element: ParsedElement, name: string, value: string): void {
+  const attribute = element.attrs.find((existing) => existing.name === name)
+  if (attribute) {
+    attribute.value = value
+  } else {
+    element.attrs.push({ name, value })
+  }
+}
+
+function removeAttribute(element: ParsedElement, name: string): void {
+  element.attrs = element.attrs.filter((attribute) => attribute.name !== name)
+}
 
-  return optimizeHtml(html)
+function getText(element: ParsedElement): string {
+  return element.childNodes.map((node) => (defaultTreeAdapter.isTextNode(node) ? node.value : "")).join("")
 }
 
-function optimizeHtml(html: string): string {
-  // Basic optimization: remove comments, extra whitespace, etc.
-  return html
-    .replace(/<!--[\s\S]*?-->/g, "") // Remove HTML comments
-    .replace(/\/\*[\s\S]*?\*\//g, "") // Remove CSS comments
-    .replace(/\/\/.*$/gm, "") // Remove single-line JS comments
-    .replace(/\s{2,}/g, " ") // Replace multiple spaces with a single space
-    .replace(/>\s+</g, "><") // Remove whitespace between HTML tags
-    .trim()
-}
\ No newline at end of file
+function setText(element: ParsedElement, text: string): void {
+  element.childNodes = []
+  if (text) {
+    defaultTreeAdapter.insertText(element, text)
+  }
+}
+
+function insertFirst(parent: ParsedElement, node: ParsedElement): void {
+  const [first] = parent.childNodes
+  if (first) {
+    defaultTreeAdapter.insertBefore(parent, node, first)
+  } else {
+    defaultTreeAdapter.appendChild(parent, node)
+  }
+}
+
+function insertAfter(reference: ParsedElement, node: ParsedElement): void {
+  const parent = reference.parentNode!
+  const next = parent.childNodes[parent.childNodes.indexOf(reference) + 1]
+  if (next) {
+    defaultTreeAdapter.insertBefore(parent, node, next)
+  } else {
+    defaultTreeAdapter.appendChild(parent, node)
+  }
+}
@@ -16,6 +16,16 @@ declare global {
       getArweaveConfig(): Promise<any>
     }
   }
+
+  // ANS-104 signing API; the arconnect typings bundled with arweave-js predate it
+  interface ArweaveDataItemSigner {
+    signDataItem(dataItem: {
+      data: string | Uint8Array
+      tags?: { name: string; value: string }[]
+      target?: string
+      anchor?: string
+    }): Promise<ArrayBuffer>
+  }
 }
 
 export {}
\ No newline at end of file